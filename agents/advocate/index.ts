@@ -3,6 +3,8 @@ import {
   synthesizeSpeech,
   getVoiceForLanguage,
 } from '../../lib/elevenlabs';
+import { isLLMConfigured } from '../../lib/llm-provider';
+import { createToolhouseClient, runAdvocateAgentWithClient } from '../../lib/toolhouse';
 import type {
   AdvocateInput,
   VoiceScript,
@@ -101,6 +103,20 @@ function generateScriptFromTemplate(
   return getNoStrongMatchTemplate(language);
 }
 
+/**
+ * Have the model write the script
+ */
+async function generateScriptWithLLM(input: AdvocateInput, signal?: AbortSignal): Promise<string> {
+  const client = createToolhouseClient();
+  const result = await runAdvocateAgentWithClient(client, input, { signal });
+
+  if (!result.success) {
+    throw new Error(`patient-advocate ${result.error.code}: ${result.error.message}`);
+  }
+
+  return result.output.text;
+}
+
 // ============================================================================
 // Main Agent Function
 // ============================================================================
@@ -108,28 +124,46 @@ function generateScriptFromTemplate(
 // Enable audio synthesis with ElevenLabs
 const SKIP_AUDIO_SYNTHESIS = false;
 
+export interface AdvocateOptions {
+  // Off when the script is read elsewhere, e.g. by API server callers
+  synthesizeAudio?: boolean;
+  signal?: AbortSignal;
+}
+
 /**
  * Run the Patient Advocate agent
  * Generates compassionate voice scripts and synthesizes audio
  */
-export async function runAdvocateAgent(input: AdvocateInput): Promise<VoiceScript> {
+export async function runAdvocateAgent(
+  input: AdvocateInput,
+  options: AdvocateOptions = {}
+): Promise<VoiceScript> {
   const { matchResults, language = 'en' } = input;
+  const { synthesizeAudio = true, signal } = options;
 
   console.log('Generating patient advocate script...');
 
   // Simulate processing delay
   await new Promise((resolve) => setTimeout(resolve, 800));
 
-  // Generate script text from template
-  let scriptText = generateScriptFromTemplate(matchResults, language);
+  // The model writes the script when there is one; templates are the fallback
+  let scriptText: string | null = null;
+  if (isLLMConfigured()) {
+    try {
+      scriptText = await generateScriptWithLLM({ ...input, language }, signal);
+    } catch (error) {
+      console.warn('LLM script generation failed, using template script:', error);
+    }
+  }
+  scriptText ??= generateScriptFromTemplate(matchResults, language);
 
   // Ensure disclaimer is included
   if (!scriptText.includes('educational purposes only')) {
     scriptText += `\n\n${REQUIRED_DISCLAIMER}`;
   }
 
-  // Skip audio synthesis in development
-  if (SKIP_AUDIO_SYNTHESIS) {
+  // Skip audio synthesis in development or when not wanted
+  if (SKIP_AUDIO_SYNTHESIS || !synthesizeAudio) {
     return {
       text: scriptText,
       audioUrl: '', // No audio in development
@@ -146,6 +180,7 @@ export async function runAdvocateAgent(input: AdvocateInput): Promise<VoiceScrip
       voiceId: getVoiceForLanguage(language),
       stability: 0.5,
       similarityBoost: 0.75,
+      signal,
     });
 
     return {
@@ -1,11 +1,23 @@
+import { getClinicalTrialsDataMode } from '../../lib/config';
+import { createClinicalTrialsClient, fetchStudy } from '../../lib/clinicaltrials';
+import type { CTGovStudy } from '../../lib/clinicaltrials';
+import { parseEligibilityText, withConstraints } from '../../lib/eligibility-parser';
+import {
+  createRtrvrClient,
+  extractTrialData,
+  toEligibilityCriteria,
+} from '../../lib/rtrvr';
 import type {
   ExtractorInput,
   EligibilityCriteria,
   CriteriaCategory,
 } from '../../lib/schemas';
 
-// Use mock data in development to avoid API issues
-const USE_MOCK_DATA = true;
+// ============================================================================
+// Types
+// ============================================================================
+
+type EligibilityModule = NonNullable<CTGovStudy['protocolSection']['eligibilityModule']>;
 
 // ============================================================================
 // Mock Eligibility Data
@@ -28,6 +40,7 @@ function getMockEligibility(nctId: string): EligibilityCriteria {
         { criterion: 'Known EGFR or ALK genomic alterations', category: 'biomarker' },
       ],
       ageRange: { min: 18, max: 120 },
+      sex: 'ALL',
       acceptsHealthyVolunteers: false,
       rawText: '',
     },
@@ -44,6 +57,7 @@ function getMockEligibility(nctId: string): EligibilityCriteria {
         { criterion: 'Prior treatment with osimertinib', category: 'treatment' },
       ],
       ageRange: { min: 18, max: 120 },
+      sex: 'ALL',
       acceptsHealthyVolunteers: false,
       rawText: '',
     },
@@ -60,6 +74,7 @@ function getMockEligibility(nctId: string): EligibilityCriteria {
         { criterion: 'Active infection requiring systemic therapy', category: 'other' },
       ],
       ageRange: { min: 18, max: 85 },
+      sex: 'ALL',
       acceptsHealthyVolunteers: false,
       rawText: '',
     },
@@ -76,6 +91,7 @@ function getMockEligibility(nctId: string): EligibilityCriteria {
         { criterion: 'Active CNS involvement', category: 'diagnosis' },
       ],
       ageRange: { min: 18, max: 75 },
+      sex: 'ALL',
       acceptsHealthyVolunteers: false,
       rawText: '',
     },
@@ -91,6 +107,7 @@ function getMockEligibility(nctId: string): EligibilityCriteria {
         { criterion: 'Prior EGFR TKI within 14 days', category: 'treatment' },
       ],
       ageRange: { min: 18, max: 120 },
+      sex: 'ALL',
       acceptsHealthyVolunteers: false,
       rawText: '',
     },
@@ -106,33 +123,113 @@ function getMockEligibility(nctId: string): EligibilityCriteria {
       { criterion: 'Prior experimental therapy within 30 days', category: 'treatment' as CriteriaCategory },
     ],
     ageRange: { min: 18, max: 120 },
+    sex: 'ALL',
     acceptsHealthyVolunteers: false,
     rawText: '',
   };
 }
 
+// ============================================================================
+// Structured Record Parsing
+// ============================================================================
+
+const AGE_UNITS_PER_YEAR: Record<string, number> = {
+  year: 1,
+  month: 12,
+  week: 52,
+  day: 365,
+};
+
+/**
+ * Convert a ClinicalTrials.gov age ("18 Years", "6 Months") to years
+ * Months, weeks and days are kept as fractions, so "6 Months" is 0.5 rather
+ * than a limit of 0 that any patient meets.
+ */
+function parseAgeYears(age: string | undefined): number | null {
+  if (!age) return null;
+
+  const match = age.trim().match(/^(\d+(?:\.\d+)?)\s*(year|month|week|day)s?$/i);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const unitsPerYear = AGE_UNITS_PER_YEAR[match[2].toLowerCase()];
+  return value / unitsPerYear;
+}
+
+/**
+ * Build EligibilityCriteria straight from the study's eligibilityModule
+ */
+function fromEligibilityModule(
+  nctId: string,
+  module: EligibilityModule
+): EligibilityCriteria {
+  const rawText = module.eligibilityCriteria || '';
+  const { inclusionCriteria, exclusionCriteria } = parseEligibilityText(rawText);
+
+  return {
+    nctId,
+    inclusionCriteria,
+    exclusionCriteria,
+    ageRange: {
+      min: parseAgeYears(module.minimumAge) ?? 0,
+      max: parseAgeYears(module.maximumAge) ?? 120,
+    },
+    sex: module.sex || 'ALL',
+    acceptsHealthyVolunteers: module.healthyVolunteers,
+    rawText,
+  };
+}
+
+/**
+ * Make sure every criterion carries its typed numeric constraints
+ */
+function withCriterionConstraints(criteria: EligibilityCriteria): EligibilityCriteria {
+  return {
+    ...criteria,
+    inclusionCriteria: withConstraints(criteria.inclusionCriteria),
+    exclusionCriteria: withConstraints(criteria.exclusionCriteria),
+  };
+}
+
 // ============================================================================
 // Main Agent Function
 // ============================================================================
 
 /**
  * Run the Eligibility Extractor agent
- * Extracts and parses eligibility criteria from trial pages
+ * Reads eligibility from the ClinicalTrials.gov study record,
+ * falling back to rtrvr.ai page extraction when the record has none
  */
 export async function runExtractorAgent(
-  input: ExtractorInput
+  input: ExtractorInput,
+  signal?: AbortSignal
 ): Promise<EligibilityCriteria> {
   const { nctId } = input;
+  const mode = getClinicalTrialsDataMode();
 
   // Use mock data to avoid API issues in browser
-  if (USE_MOCK_DATA) {
+  if (mode === 'mock') {
     console.log(`Using mock eligibility data for ${nctId}`);
     await new Promise((resolve) => setTimeout(resolve, 500)); // Simulate delay
-    return getMockEligibility(nctId);
+    return withCriterionConstraints(getMockEligibility(nctId));
   }
 
-  // Fallback - return default criteria
-  return getMockEligibility(nctId);
+  const client = createClinicalTrialsClient(mode);
+  const study = await fetchStudy(client, nctId, signal);
+  const eligibilityModule = study?.protocolSection.eligibilityModule;
+
+  if (eligibilityModule?.eligibilityCriteria) {
+    return fromEligibilityModule(nctId, eligibilityModule);
+  }
+
+  console.log(`No structured eligibility record for ${nctId}, extracting with rtrvr.ai`);
+  const extraction = await extractTrialData(
+    createRtrvrClient(),
+    nctId,
+    study?.protocolSection.statusModule.lastUpdatePostDateStruct?.date,
+    signal
+  );
+  return withCriterionConstraints(toEligibilityCriteria(extraction, nctId));
 }
 
 // ============================================================================
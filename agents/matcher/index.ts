@@ -1,222 +1,810 @@
-import { createToolhouseClient, runAgent } from '../../lib/toolhouse';
+import { createToolhouseClient, runMatcherAgentWithClient } from '../../lib/toolhouse';
+import { isLLMConfigured } from '../../lib/llm-provider';
+import {
+  formatBiomarker,
+  hasBiomarkerFor,
+  matchBiomarker,
+  parseBiomarkers,
+} from '../../lib/biomarkers';
+import {
+  daysSinceTreatment,
+  describeTreatmentReference,
+  expandDrugClasses,
+  resolveTreatment,
+  resolveTreatmentText,
+  treatmentMatches,
+} from '../../lib/treatments';
+import type { ResolvedTreatment } from '../../lib/treatments';
+import { getScoringProfile, selectScoringProfile } from '../../lib/scoring-profiles';
 import type {
   MatcherInput,
+  MatcherModelOutput,
   MatchResult,
   MatchCategory,
+  MatchDisagreement,
   MatchingFactor,
   BlockingFactor,
   PatientProfile,
   EligibilityCriteria,
+  LabConstraint,
+  PerformanceStatusConstraint,
+  StageConstraint,
+  Biomarker,
+  BiomarkerConstraint,
+  CancerStage,
+  Criterion,
+  CriterionTrace,
+  CriterionVerdict,
+  PriorLinesConstraint,
+  ScoringProfile,
+  Stage,
+  WashoutConstraint,
 } from '../../lib/schemas';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface LLMMatchResponse {
-  score: number;
-  category: MatchCategory;
-  matchingFactors: MatchingFactor[];
-  blockingFactors: BlockingFactor[];
-  uncertainFactors: string[];
-  summary: string;
-}
+type LLMCriterionVerdict = NonNullable<MatcherModelOutput['criteriaTrace']>[number];
 
 // ============================================================================
-// Weight Configuration
+// Criteria Trace
 // ============================================================================
 
-const CRITERIA_WEIGHTS: Record<string, number> = {
-  diagnosis: 10,
-  biomarker: 9,
-  stage: 8,
-  ecog: 7,
-  treatment: 6,
-  demographics: 5,
-  other: 3,
+interface CriteriaTrace {
+  record(
+    criterion: Criterion,
+    verdict: CriterionVerdict,
+    profileField: keyof PatientProfile | null,
+    ruleId: string,
+    reason?: string
+  ): void;
+  entries(): CriterionTrace[];
+}
+
+// Higher wins when several rules evaluate the same criterion: the verdict
+// least favorable to eligibility is the one reported
+const VERDICT_SEVERITY: Record<'inclusion' | 'exclusion', Record<CriterionVerdict, number>> = {
+  inclusion: { met: 0, unknown: 1, not_met: 2 },
+  exclusion: { not_met: 0, unknown: 1, met: 2 },
 };
 
+function listCriteria(
+  criteria: EligibilityCriteria
+): Array<{ criterion: Criterion; isInclusion: boolean }> {
+  return [
+    ...criteria.inclusionCriteria.map((criterion) => ({ criterion, isInclusion: true })),
+    ...criteria.exclusionCriteria.map((criterion) => ({ criterion, isInclusion: false })),
+  ];
+}
+
+/**
+ * Track a verdict for every criterion; criteria no rule looks at stay 'unknown'
+ */
+function createCriteriaTrace(criteria: EligibilityCriteria): CriteriaTrace {
+  const traces = new Map<Criterion, CriterionTrace>();
+
+  for (const { criterion, isInclusion } of listCriteria(criteria)) {
+    traces.set(criterion, {
+      criterion: criterion.criterion,
+      criterionType: isInclusion ? 'inclusion' : 'exclusion',
+      category: criterion.category,
+      verdict: 'unknown',
+      profileField: null,
+      decidedBy: { kind: 'none', id: 'unevaluated' },
+    });
+  }
+
+  return {
+    record(criterion, verdict, profileField, ruleId, reason) {
+      const current = traces.get(criterion);
+      if (!current) return;
+
+      const severity = VERDICT_SEVERITY[current.criterionType];
+      if (current.decidedBy.kind !== 'none' && severity[verdict] <= severity[current.verdict]) {
+        return;
+      }
+
+      traces.set(criterion, {
+        ...current,
+        verdict,
+        profileField,
+        decidedBy: { kind: 'rule', id: ruleId },
+        reason,
+      });
+    },
+    entries() {
+      return Array.from(traces.values());
+    },
+  };
+}
+
 // ============================================================================
 // Matching Logic
 // ============================================================================
 
 /**
- * Check ECOG score against criteria
+ * Approximate Karnofsky range for each ECOG grade
+ */
+const ECOG_TO_KARNOFSKY: Record<number, [number, number]> = {
+  0: [90, 100],
+  1: [70, 80],
+  2: [50, 60],
+  3: [30, 40],
+  4: [10, 20],
+};
+
+const LAB_LABELS: Record<LabConstraint['analyte'], string> = {
+  anc: 'ANC',
+  platelets: 'Platelets',
+  hemoglobin: 'Hemoglobin',
+  creatinine_clearance: 'Creatinine clearance',
+  creatinine: 'Creatinine',
+  bilirubin: 'Bilirubin',
+  ast: 'AST',
+  alt: 'ALT',
+};
+
+const COMPARATOR_SYMBOLS: Record<LabConstraint['comparator'], string> = {
+  '<': '<',
+  '<=': '≤',
+  '>': '>',
+  '>=': '≥',
+  '=': '=',
+};
+
+/**
+ * Whether the patient's ECOG satisfies a performance status constraint
+ * Returns null when the ECOG-to-Karnofsky conversion straddles the threshold
+ */
+function satisfiesPerformanceStatus(
+  patientECOG: number,
+  constraint: PerformanceStatusConstraint
+): boolean | null {
+  const min = constraint.min ?? -Infinity;
+  const max = constraint.max ?? Infinity;
+
+  if (constraint.scale === 'ecog') {
+    return patientECOG >= min && patientECOG <= max;
+  }
+
+  const [low, high] = ECOG_TO_KARNOFSKY[patientECOG];
+  if (low >= min && high <= max) return true;
+  if (high < min || low > max) return false;
+  return null;
+}
+
+function formatPerformanceStatus(constraint: PerformanceStatusConstraint): string {
+  const label = constraint.scale === 'ecog' ? 'ECOG' : 'Karnofsky';
+  if (constraint.min !== undefined && constraint.max !== undefined) {
+    return `${label} ${constraint.min}-${constraint.max}`;
+  }
+  if (constraint.max !== undefined) {
+    return `${label} ≤ ${constraint.max}`;
+  }
+  return `${label} ≥ ${constraint.min}`;
+}
+
+/**
+ * Check ECOG score against ECOG/Karnofsky constraints
  */
 function checkECOG(
   patientECOG: number,
-  criteria: EligibilityCriteria
-): { match: boolean; reason?: string } {
-  // Look for ECOG requirements in criteria
-  const ecogCriteria = [
-    ...criteria.inclusionCriteria,
-    ...criteria.exclusionCriteria,
-  ].find((c) => /ecog|performance status/i.test(c.criterion));
+  criteria: EligibilityCriteria,
+  trace: CriteriaTrace
+): { match: boolean; reason?: string; uncertain?: string } {
+  let reason: string | undefined;
+  let uncertain: string | undefined;
+
+  // No structured requirement found (or it could not be parsed), assume match
+  for (const { criterion, isInclusion } of listCriteria(criteria)) {
+    const constraints = (criterion.constraints ?? [])
+      .filter((c): c is PerformanceStatusConstraint => c.type === 'performance_status');
+
+    for (const constraint of constraints) {
+      const result = satisfiesPerformanceStatus(patientECOG, constraint);
+      const range = formatPerformanceStatus(constraint);
+
+      if (result === null) {
+        const message = isInclusion
+          ? `ECOG ${patientECOG} may not meet ${range}`
+          : `ECOG ${patientECOG} may fall in excluded range (${range})`;
+        uncertain ??= message;
+        trace.record(criterion, 'unknown', 'ecogScore', 'performance_status', message);
+      } else if (result !== isInclusion) {
+        const message = isInclusion
+          ? `ECOG score ${patientECOG} outside required range (${range})`
+          : `ECOG score ${patientECOG} falls in excluded range (${range})`;
+        reason ??= message;
+        trace.record(criterion, isInclusion ? 'not_met' : 'met', 'ecogScore', 'performance_status', message);
+      } else {
+        trace.record(criterion, isInclusion ? 'met' : 'not_met', 'ecogScore', 'performance_status');
+      }
+    }
+  }
+
+  if (reason) return { match: false, reason };
+  if (uncertain) return { match: false, uncertain };
+  return { match: true };
+}
+
+/**
+ * Collect lab thresholds the patient needs to confirm with recent bloodwork
+ */
+function checkLabRequirements(criteria: EligibilityCriteria, trace: CriteriaTrace): string | null {
+  const formatted: string[] = [];
+
+  for (const criterion of criteria.inclusionCriteria) {
+    const labs = (criterion.constraints ?? []).filter((c): c is LabConstraint => c.type === 'lab');
+    if (labs.length === 0) continue;
+
+    const values = labs.map((lab) =>
+      `${LAB_LABELS[lab.analyte]} ${COMPARATOR_SYMBOLS[lab.comparator]} ${lab.value}${lab.unit ? ` ${lab.unit}` : ''}`
+    );
+    formatted.push(...values);
+    trace.record(criterion, 'unknown', null, 'lab_values', `Not in profile: ${values.join(', ')}`);
+  }
 
-  if (!ecogCriteria) {
-    return { match: true }; // No ECOG requirement found
+  if (formatted.length === 0) {
+    return null;
   }
 
-  // Try to extract ECOG requirement
-  const ecogMatch = ecogCriteria.criterion.match(/ecog\s*(?:ps|score)?\s*(?:of\s*)?(\d)(?:\s*-\s*(\d))?/i);
+  return `Lab values to confirm: ${formatted.join(', ')}`;
+}
+
+/**
+ * Whether the patient's stage falls within a required stage
+ * Returns null when the patient's stage is too coarse to tell (III vs IIIB)
+ */
+function stageFits(patientStage: Stage, required: CancerStage): boolean | null {
+  if (patientStage === 'Unknown') return null;
+
+  const group = (stage: CancerStage) => stage.replace(/[A-C]$/, '');
+  if (group(patientStage) !== group(required)) return false;
+  if (required === group(required) || patientStage === required) return true;
+  return patientStage === group(patientStage) ? null : false;
+}
+
+function fitsAnyStage(patientStage: Stage, constraint: StageConstraint): boolean | null {
+  const results = constraint.stages.map((stage) => stageFits(patientStage, stage));
+  if (results.includes(true)) return true;
+  if (results.includes(null)) return null;
+  return false;
+}
+
+function formatStages(constraint: StageConstraint): string {
+  return constraint.stages.map((stage) => `Stage ${stage}`).join(', ');
+}
 
-  if (ecogMatch) {
-    const minECOG = parseInt(ecogMatch[1], 10);
-    const maxECOG = ecogMatch[2] ? parseInt(ecogMatch[2], 10) : minECOG;
+/**
+ * Check the patient's stage against stage requirements in the criteria
+ * Requirements inferred from wording like "advanced" never block on their own
+ */
+function checkStage(
+  patientStage: Stage,
+  criteria: EligibilityCriteria,
+  trace: CriteriaTrace
+): { matches: string[]; conflicts: string[]; uncertain: string[] } {
+  const matches: string[] = [];
+  const conflicts: string[] = [];
+  const uncertain: string[] = [];
 
-    if (patientECOG >= minECOG && patientECOG <= maxECOG) {
-      return { match: true };
+  const patientLabel = patientStage === 'Unknown' ? 'Unknown stage' : `Stage ${patientStage}`;
+
+  for (const { criterion, isInclusion } of listCriteria(criteria)) {
+    const constraints = (criterion.constraints ?? [])
+      .filter((c): c is StageConstraint => c.type === 'stage');
+
+    for (const constraint of constraints) {
+      const fits = fitsAnyStage(patientStage, constraint);
+      const stages = formatStages(constraint);
+      const definite = fits !== null && constraint.source === 'explicit';
+
+      if (isInclusion) {
+        if (fits === true) {
+          matches.push(`${patientLabel} meets stage requirement (${stages})`);
+          trace.record(criterion, 'met', 'stage', 'stage');
+        } else if (fits === false && definite) {
+          const message = `${patientLabel} is not among required stages (${stages})`;
+          conflicts.push(message);
+          trace.record(criterion, 'not_met', 'stage', 'stage', message);
+        } else {
+          const message = `${patientLabel} may not meet stage requirement (${stages})`;
+          uncertain.push(message);
+          trace.record(criterion, 'unknown', 'stage', 'stage', message);
+        }
+      } else if (fits === true && definite) {
+        const message = `${patientLabel} is excluded (${stages})`;
+        conflicts.push(message);
+        trace.record(criterion, 'met', 'stage', 'stage', message);
+      } else if (fits !== false) {
+        const message = `${patientLabel} may be excluded (${stages})`;
+        uncertain.push(message);
+        trace.record(criterion, 'unknown', 'stage', 'stage', message);
+      } else {
+        trace.record(criterion, 'not_met', 'stage', 'stage');
+      }
     }
+  }
 
-    return {
-      match: false,
-      reason: `ECOG score ${patientECOG} outside required range (${minECOG}-${maxECOG})`,
-    };
+  // Several criteria can restate the same stage requirement; count a match once
+  return { matches: matches.slice(0, 1), conflicts, uncertain };
+}
+
+/**
+ * Patient age in whole years, from date of birth when available
+ */
+function getPatientAge(profile: PatientProfile, now: Date = new Date()): number | null {
+  if (profile.dateOfBirth) {
+    const dob = new Date(`${profile.dateOfBirth}T00:00:00`);
+    if (!Number.isNaN(dob.getTime())) {
+      let age = now.getFullYear() - dob.getFullYear();
+      const hadBirthday =
+        now.getMonth() > dob.getMonth() ||
+        (now.getMonth() === dob.getMonth() && now.getDate() >= dob.getDate());
+      if (!hadBirthday) age--;
+      return age;
+    }
+  }
+
+  return profile.age ?? null;
+}
+
+/**
+ * Patient age in years including the time since the last birthday, for limits
+ * stated in months or weeks; whole years when only the age is known
+ */
+function getExactPatientAge(profile: PatientProfile, now: Date = new Date()): number | null {
+  const age = getPatientAge(profile, now);
+  if (age === null || !profile.dateOfBirth) {
+    return age;
   }
 
-  return { match: true }; // Couldn't parse requirement, assume match
+  const dob = new Date(`${profile.dateOfBirth}T00:00:00`);
+  const lastBirthday = new Date(dob);
+  lastBirthday.setFullYear(dob.getFullYear() + age);
+  const nextBirthday = new Date(dob);
+  nextBirthday.setFullYear(dob.getFullYear() + age + 1);
+
+  const sinceBirthday = now.getTime() - lastBirthday.getTime();
+  return age + sinceBirthday / (nextBirthday.getTime() - lastBirthday.getTime());
+}
+
+function formatYears(years: number): string {
+  return Number.isInteger(years) ? String(years) : years.toFixed(1);
 }
 
 /**
- * Check biomarker alignment
+ * Check age range, sex restriction and healthy volunteer status
+ */
+function checkDemographics(
+  profile: PatientProfile,
+  criteria: EligibilityCriteria,
+  trace: CriteriaTrace
+): { matches: string[]; conflicts: string[]; uncertain: string[] } {
+  const matches: string[] = [];
+  const conflicts: string[] = [];
+  const uncertain: string[] = [];
+
+  const { min, max } = criteria.ageRange;
+  const hasAgeLimit = min > 0 || max < 120;
+  const ageRange = `${formatYears(min)}-${formatYears(max)}`;
+  const age = getPatientAge(profile);
+  const exactAge = getExactPatientAge(profile);
+  let ageVerdict: CriterionVerdict = 'met';
+  let ageMessage: string | undefined;
+
+  // Minimums can be fractions of a year; a maximum of 65 still takes a patient of 65 and a half
+  if (age === null || exactAge === null) {
+    if (hasAgeLimit) {
+      ageMessage = `Age requirement (${ageRange}) needs confirmation`;
+      ageVerdict = 'unknown';
+      uncertain.push(ageMessage);
+    }
+  } else if (exactAge < min || age > max) {
+    ageMessage = `Age ${age} is outside the trial's age range (${ageRange})`;
+    ageVerdict = 'not_met';
+    conflicts.push(ageMessage);
+  } else if (hasAgeLimit) {
+    matches.push(`Age ${age} within trial age range (${ageRange})`);
+  }
+
+  let sexVerdict: CriterionVerdict = 'met';
+  let sexMessage: string | undefined;
+
+  if (criteria.sex !== 'ALL') {
+    const required = criteria.sex.toLowerCase();
+    if (!profile.sex) {
+      sexMessage = `Trial enrolls ${required} participants only`;
+      sexVerdict = 'unknown';
+      uncertain.push(sexMessage);
+    } else if (profile.sex !== required) {
+      sexMessage = `Trial enrolls ${required} participants only`;
+      sexVerdict = 'not_met';
+      conflicts.push(sexMessage);
+    } else {
+      matches.push(`Trial enrolls ${required} participants`);
+    }
+  }
+
+  // Only a trial that says it takes healthy volunteers raises the question
+  if (criteria.acceptsHealthyVolunteers === true) {
+    uncertain.push('Trial also enrolls healthy volunteers; confirm it has a patient cohort');
+  }
+
+  // Age and sex limits come from structured fields; attribute them to the criteria that state them
+  for (const criterion of criteria.inclusionCriteria) {
+    if (criterion.constraints?.some((c) => c.type === 'age')) {
+      trace.record(criterion, ageVerdict, 'dateOfBirth', 'age', ageMessage);
+    } else if (
+      criterion.category === 'demographics' &&
+      criteria.sex !== 'ALL' &&
+      /\b(male|female|men|women|sex)\b/i.test(criterion.criterion)
+    ) {
+      trace.record(criterion, sexVerdict, 'sex', 'sex', sexMessage);
+    }
+  }
+
+  return { matches, conflicts, uncertain };
+}
+
+/**
+ * Check a criterion's biomarker constraints against the patient's biomarkers
+ * Positive requirements are alternatives ("Ex19del or L858R"); negative ones must all hold
+ */
+function checkBiomarkerConstraints(
+  patient: Biomarker[],
+  constraints: BiomarkerConstraint[]
+): boolean | null {
+  const required = constraints.filter((c) => c.status === 'positive');
+  const excluded = constraints.filter((c) => c.status === 'negative');
+  const results: Array<boolean | null> = [];
+
+  if (required.length > 0) {
+    const fits = required.map((c) => matchBiomarker(patient, c));
+    results.push(fits.includes(true) ? true : fits.every((f) => f === false) ? false : null);
+  }
+  if (excluded.length > 0) {
+    const fits = excluded.map((c) => matchBiomarker(patient, c));
+    results.push(fits.includes(false) ? false : fits.every((f) => f === true) ? true : null);
+  }
+
+  if (results.includes(false)) return false;
+  if (results.includes(null)) return null;
+  return true;
+}
+
+/**
+ * Check biomarker alignment using structured biomarkers on both sides
  */
 function checkBiomarkers(
   patientBiomarkers: string[],
-  criteria: EligibilityCriteria
+  criteria: EligibilityCriteria,
+  trace: CriteriaTrace
 ): { matches: string[]; conflicts: string[]; uncertain: string[] } {
   const matches: string[] = [];
   const conflicts: string[] = [];
   const uncertain: string[] = [];
 
-  const biomarkerCriteria = criteria.inclusionCriteria.filter(
-    (c) => c.category === 'biomarker'
-  );
-  const excludedBiomarkers = criteria.exclusionCriteria.filter(
-    (c) => c.category === 'biomarker'
-  );
+  const patient = patientBiomarkers.flatMap(parseBiomarkers);
+  const patientLabel = (constraints: BiomarkerConstraint[]) =>
+    patient
+      .filter((b) => constraints.some((c) => c.gene === b.gene))
+      .map(formatBiomarker)
+      .join(', ');
 
-  // Normalize biomarkers for comparison
-  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
-  const normalizedPatient = patientBiomarkers.map(normalize);
+  const constraintsOf = (criterion: Criterion) =>
+    (criterion.constraints ?? []).filter((c): c is BiomarkerConstraint => c.type === 'biomarker');
 
   // Check inclusion criteria
-  for (const criterion of biomarkerCriteria) {
-    const criterionNorm = normalize(criterion.criterion);
-
-    const hasMatch = normalizedPatient.some(
-      (pb) => criterionNorm.includes(pb) || pb.includes(criterionNorm)
-    );
+  for (const criterion of criteria.inclusionCriteria) {
+    const constraints = constraintsOf(criterion);
+
+    if (constraints.length === 0) {
+      // Biomarker wording we could not resolve still needs a human look
+      if (criterion.category === 'biomarker') {
+        uncertain.push(criterion.criterion);
+        trace.record(criterion, 'unknown', 'biomarkers', 'biomarker', 'No recognized biomarker in criterion');
+      }
+      continue;
+    }
 
-    if (hasMatch) {
+    const result = checkBiomarkerConstraints(patient, constraints);
+    if (result === true) {
       matches.push(criterion.criterion);
+      trace.record(criterion, 'met', 'biomarkers', 'biomarker');
+    } else if (result === false) {
+      const message = `${patientLabel(constraints)} does not meet "${criterion.criterion}"`;
+      conflicts.push(message);
+      trace.record(criterion, 'not_met', 'biomarkers', 'biomarker', message);
     } else {
       uncertain.push(criterion.criterion);
+      trace.record(criterion, 'unknown', 'biomarkers', 'biomarker');
     }
   }
 
   // Check exclusion criteria
-  for (const criterion of excludedBiomarkers) {
-    const criterionNorm = normalize(criterion.criterion);
+  for (const criterion of criteria.exclusionCriteria) {
+    const constraints = constraintsOf(criterion);
+    if (constraints.length === 0) continue;
+
+    const result = checkBiomarkerConstraints(patient, constraints);
+    if (result === true) {
+      const message = `${patientLabel(constraints)} is excluded by "${criterion.criterion}"`;
+      conflicts.push(message);
+      trace.record(criterion, 'met', 'biomarkers', 'biomarker', message);
+    } else if (result === false) {
+      trace.record(criterion, 'not_met', 'biomarkers', 'biomarker');
+    } else {
+      // Only worth flagging when the patient has been tested for the gene at all
+      if (constraints.some((c) => hasBiomarkerFor(patient, c.gene))) {
+        uncertain.push(criterion.criterion);
+      }
+      trace.record(criterion, 'unknown', 'biomarkers', 'biomarker');
+    }
+  }
 
-    const hasConflict = normalizedPatient.some(
-      (pb) => criterionNorm.includes(pb) || pb.includes(criterionNorm)
-    );
+  return { matches, conflicts, uncertain };
+}
+
+/**
+ * Lines of therapy the patient has had: a lower bound, and whether it is exact
+ * Without line numbers, any systemic treatment counts as at least one line
+ */
+function countPriorLines(treatments: ResolvedTreatment[]): { count: number; exact: boolean } {
+  const numbered = treatments.filter((t) => t.line !== undefined);
+  if (numbered.length > 0) {
+    return { count: Math.max(...numbered.map((t) => t.line!)), exact: numbered.length === treatments.length };
+  }
+
+  // Unrecognized drugs are assumed to be systemic
+  const systemic = treatments.filter((t) =>
+    t.drugClasses.length === 0 || expandDrugClasses(t.drugClasses).includes('systemic_therapy')
+  );
+  return { count: systemic.length > 0 ? 1 : 0, exact: systemic.length === 0 };
+}
 
-    if (hasConflict) {
-      conflicts.push(criterion.criterion);
+/**
+ * Check a washout or recency window against treatment dates
+ * Returns whether the criterion's wording holds for the patient: "Chemotherapy
+ * within 14 days" holds while they are on chemotherapy, "At least 4 weeks since
+ * chemotherapy" once they have been off it that long. An inclusion needs it to
+ * hold and an exclusion to not hold, so an inclusion "within" window asks for
+ * recent therapy while an exclusion one asks for time off it.
+ */
+function checkWashout(
+  treatments: ResolvedTreatment[],
+  washout: WashoutConstraint,
+  isInclusion: boolean,
+  now: Date
+): { holds: boolean | null; conflicts: string[]; uncertain: string[] } {
+  // A target we cannot resolve might or might not be any of the patient's
+  // treatments, so it can only leave the criterion unknown
+  const reference = resolveTreatmentText(washout.appliesTo);
+  const known = reference.drugClasses.length > 0 || reference.drugs.length > 0;
+  const label = known ? describeTreatmentReference(reference) : washout.appliesTo || 'prior therapy';
+
+  // Treatments taken inside the window, and those that may have been
+  const recent: Array<{ treatment: ResolvedTreatment; days: number }> = [];
+  const unsure: ResolvedTreatment[] = [];
+  for (const treatment of treatments) {
+    const matches = known ? treatmentMatches(treatment, reference) : null;
+    if (matches === false) continue;
+
+    const days = daysSinceTreatment(treatment, now);
+    if (days !== null && days >= washout.days) continue;
+
+    if (matches && days !== null) {
+      recent.push({ treatment, days });
+    } else {
+      unsure.push(treatment);
     }
   }
 
-  return { matches, conflicts, uncertain };
+  const recentUse = recent.length > 0 ? true : unsure.length > 0 ? null : false;
+  let holds = washout.window === 'within' ? recentUse : recentUse === null ? null : !recentUse;
+  if (!known && holds !== null && holds !== isInclusion) {
+    holds = null;
+  }
+
+  // Whether the criterion passes by the patient being off the therapy
+  const needsTimeOff = (washout.window === 'within') !== isInclusion;
+
+  if (holds === null) {
+    return {
+      holds,
+      conflicts: [],
+      uncertain: !needsTimeOff
+        ? [`Confirm ${label} within the last ${washout.days} days`]
+        : known
+          ? unsure.map((t) => `Confirm last ${t.name} was over ${washout.days} days ago`)
+          : [`Confirm no ${label} in the last ${washout.days} days`],
+    };
+  }
+
+  if (holds === isInclusion) {
+    return { holds, conflicts: [], uncertain: [] };
+  }
+
+  return {
+    holds,
+    conflicts: needsTimeOff
+      ? recent.map(({ treatment, days }) =>
+          days === 0 && !treatment.endDate
+            ? `${treatment.name} is ongoing; trial requires ${washout.days} days off ${label}`
+            : `${treatment.name} ended ${days} days ago; trial requires ${washout.days} days off ${label}`
+        )
+      : [`Trial requires ${label} within the last ${washout.days} days`],
+    uncertain: [],
+  };
+}
+
+/**
+ * Check "at least N" / "no more than N" prior lines of therapy
+ */
+function checkPriorLines(
+  treatments: ResolvedTreatment[],
+  constraint: PriorLinesConstraint
+): { match?: string; conflict?: string; uncertain?: string } {
+  const { count, exact } = countPriorLines(treatments);
+  const plural = (n: number) => `${n} prior line${n === 1 ? '' : 's'}`;
+
+  if (constraint.min !== undefined && constraint.min > 0) {
+    if (count >= constraint.min) {
+      return { match: `Has ${exact ? '' : 'at least '}${plural(count)} of therapy` };
+    }
+    if (exact) {
+      return { conflict: `Requires at least ${plural(constraint.min)} of therapy` };
+    }
+    return { uncertain: `Confirm at least ${plural(constraint.min)} of therapy` };
+  }
+
+  if (constraint.max !== undefined) {
+    if (count > constraint.max) {
+      return {
+        conflict: constraint.max === 0
+          ? 'Trial requires no prior systemic therapy'
+          : `Allows at most ${plural(constraint.max)} of therapy`,
+      };
+    }
+    if (!exact) {
+      return { uncertain: `Confirm no more than ${plural(constraint.max)} of therapy` };
+    }
+  }
+
+  return {};
 }
 
 /**
- * Check treatment history alignment
+ * Check treatment history: drug class requirements/exclusions, washouts and prior lines
  */
 function checkTreatmentHistory(
-  previousTreatments: string[],
-  criteria: EligibilityCriteria
-): { matches: string[]; conflicts: string[] } {
+  profile: PatientProfile,
+  criteria: EligibilityCriteria,
+  trace: CriteriaTrace,
+  now: Date = new Date()
+): { matches: string[]; conflicts: string[]; uncertain: string[] } {
   const matches: string[] = [];
   const conflicts: string[] = [];
+  const uncertain: string[] = [];
 
-  const treatmentInclusion = criteria.inclusionCriteria.filter(
-    (c) => c.category === 'treatment'
-  );
-  const treatmentExclusion = criteria.exclusionCriteria.filter(
-    (c) => c.category === 'treatment'
-  );
-
-  const normalizedTreatments = previousTreatments.map((t) =>
-    t.toLowerCase().replace(/[^a-z0-9]/g, '')
-  );
+  // Individual drugs, plus the broad intake categories
+  const treatments = [
+    ...profile.treatments,
+    ...profile.previousTreatments.filter((t) => t !== 'None'),
+  ].map(resolveTreatment);
+
+  const check = (criterion: Criterion, isInclusion: boolean) => {
+    const constraints = criterion.constraints ?? [];
+    const washouts = constraints.filter((c): c is WashoutConstraint => c.type === 'washout');
+    const priorLines = constraints.filter((c): c is PriorLinesConstraint => c.type === 'prior_lines');
+
+    for (const washout of washouts) {
+      const result = checkWashout(treatments, washout, isInclusion, now);
+      conflicts.push(...result.conflicts);
+      uncertain.push(...result.uncertain);
+
+      const verdict: CriterionVerdict =
+        result.holds === null ? 'unknown' : result.holds ? 'met' : 'not_met';
+      trace.record(criterion, verdict, 'treatments', 'washout', result.conflicts[0] ?? result.uncertain[0]);
+    }
 
-  // Check if prior treatment is required
-  for (const criterion of treatmentInclusion) {
-    if (/prior|previous|must have received/i.test(criterion.criterion)) {
-      const required = criterion.criterion.toLowerCase();
-      const hasRequired = normalizedTreatments.some((t) => required.includes(t));
+    if (isInclusion) {
+      for (const constraint of priorLines) {
+        const result = checkPriorLines(treatments, constraint);
+        if (result.match) matches.push(result.match);
+        if (result.conflict) conflicts.push(result.conflict);
+        if (result.uncertain) uncertain.push(result.uncertain);
 
-      if (hasRequired) {
-        matches.push(`Prior ${criterion.criterion.slice(0, 50)}...`);
+        const verdict: CriterionVerdict = result.conflict ? 'not_met' : result.uncertain ? 'unknown' : 'met';
+        trace.record(criterion, verdict, 'treatments', 'prior_lines', result.conflict ?? result.uncertain);
       }
     }
-  }
-
-  // Check for excluded treatments
-  for (const criterion of treatmentExclusion) {
-    const excluded = criterion.criterion.toLowerCase();
-    const hasExcluded = normalizedTreatments.some((t) => excluded.includes(t));
 
-    if (hasExcluded) {
-      conflicts.push(`Excluded: ${criterion.criterion.slice(0, 50)}...`);
+    for (const constraint of constraints) {
+      if (constraint.type !== 'prior_treatment') continue;
+
+      // A washout limits how recent the therapy was, not whether it was ever given,
+      // and "no prior systemic therapy" is already covered by the prior lines check
+      if (washouts.length > 0) continue;
+      const genericOnly = constraint.drugs.length === 0 &&
+        constraint.drugClasses.every((id) => id === 'systemic_therapy');
+      if (priorLines.length > 0 && genericOnly) continue;
+
+      const results = treatments.map((t) => treatmentMatches(t, constraint));
+      const hadTreatment = results.includes(true) ? true : results.includes(null) ? null : false;
+      const label = describeTreatmentReference(constraint);
+      const mustHave = isInclusion !== constraint.negated;
+
+      // The criterion text holds when the patient had the therapy, or did not if it is negated
+      const holds = hadTreatment === null ? null : hadTreatment !== constraint.negated;
+      trace.record(
+        criterion,
+        holds === null ? 'unknown' : holds ? 'met' : 'not_met',
+        'treatments',
+        'prior_treatment'
+      );
+
+      if (mustHave) {
+        if (hadTreatment === true) matches.push(`Prior ${label}`);
+        else if (hadTreatment === false) conflicts.push(`Requires prior ${label}`);
+        else uncertain.push(`Confirm prior ${label}`);
+      } else if (hadTreatment === true) {
+        const names = treatments.filter((t) => treatmentMatches(t, constraint)).map((t) => t.name);
+        conflicts.push(`Prior ${label} is excluded (${names.join(', ')})`);
+      } else if (hadTreatment === null) {
+        uncertain.push(`Confirm no prior ${label}`);
+      }
     }
-  }
+  };
+
+  criteria.inclusionCriteria.forEach((c) => check(c, true));
+  criteria.exclusionCriteria.forEach((c) => check(c, false));
 
-  return { matches, conflicts };
+  return { matches, conflicts, uncertain };
 }
 
 // ============================================================================
 // Score Calculation
 // ============================================================================
 
+/**
+ * Map a score to a category using the profile's cutoffs
+ */
+function categorize(score: number, scoring: ScoringProfile): MatchCategory {
+  const { thresholds } = scoring;
+  if (score >= thresholds.strong_match) return 'strong_match';
+  if (score >= thresholds.possible_match) return 'possible_match';
+  if (score >= thresholds.future_potential) return 'future_potential';
+  return 'not_eligible';
+}
+
 /**
  * Calculate match score and category
  */
 function calculateScore(
   matchingFactors: MatchingFactor[],
   blockingFactors: BlockingFactor[],
-  uncertainFactors: string[]
+  uncertainFactors: string[],
+  scoring: ScoringProfile
 ): { score: number; category: MatchCategory } {
   // If there are hard exclusions, score is very low
   if (blockingFactors.length > 0) {
-    const score = Math.max(0, 20 - blockingFactors.length * 10);
+    const score = Math.max(0, scoring.blockedScore - blockingFactors.length * scoring.blockingPenalty);
     return { score, category: 'not_eligible' };
   }
 
   // Calculate weighted score from matching factors
   const totalWeight = matchingFactors.reduce((sum, f) => sum + f.weight, 0);
-  const maxPossibleWeight = Object.values(CRITERIA_WEIGHTS).reduce((a, b) => a + b, 0);
+  const maxPossibleWeight = Object.values(scoring.weights).reduce((a, b) => a + b, 0);
 
   // Penalize for uncertain factors
-  const uncertaintyPenalty = uncertainFactors.length * 5;
+  const uncertaintyPenalty = uncertainFactors.length * scoring.uncertaintyPenalty;
 
   let score = Math.round((totalWeight / maxPossibleWeight) * 100) - uncertaintyPenalty;
   score = Math.max(0, Math.min(100, score));
 
-  // Determine category
-  let category: MatchCategory;
-  if (score >= 75) {
-    category = 'strong_match';
-  } else if (score >= 50) {
-    category = 'possible_match';
-  } else if (score >= 25) {
-    category = 'future_potential';
-  } else {
-    category = 'not_eligible';
-  }
-
-  return { score, category };
+  return { score, category: categorize(score, scoring) };
 }
 
 // ============================================================================
@@ -250,99 +838,318 @@ function generateSummary(
 }
 
 // ============================================================================
-// Main Agent Function
+// Reconciliation
 // ============================================================================
 
-// Skip LLM calls in development
-const USE_RULES_ONLY = true;
+function formatCategory(category: MatchCategory): string {
+  return category.replace(/_/g, ' ');
+}
+
+/**
+ * Merge per-criterion verdicts: a definite rule verdict always stands, and the
+ * model fills in criteria the rules could not decide
+ */
+function reconcileTraces(
+  ruleTrace: CriterionTrace[],
+  modelTrace: CriterionTrace[]
+): { criteriaTrace: CriterionTrace[]; disagreements: MatchDisagreement[] } {
+  const disagreements: MatchDisagreement[] = [];
+
+  const criteriaTrace = ruleTrace.map((rule) => {
+    const model = modelTrace.find(
+      (m) => m.criterion === rule.criterion && m.criterionType === rule.criterionType
+    );
+    if (!model || model.decidedBy.kind !== 'model' || model.verdict === 'unknown') {
+      return rule;
+    }
+    if (rule.verdict === 'unknown') {
+      return model;
+    }
+
+    if (rule.verdict !== model.verdict) {
+      disagreements.push({
+        kind: 'criterion',
+        subject: rule.criterion,
+        ruleVerdict: rule.verdict,
+        modelVerdict: model.verdict,
+        resolution: 'rule',
+        explanation: `The ${rule.decidedBy.id} rule's verdict was kept over the model's`,
+      });
+    }
+    return rule;
+  });
+
+  return { criteriaTrace, disagreements };
+}
+
+/**
+ * Combine rule-based and model-based results for the same trial
+ * Rule exclusions are hard and always win. Exclusions only the model found
+ * become items to confirm; otherwise the two scores are averaged.
+ */
+function reconcileMatch(
+  rules: MatchResult,
+  model: MatchResult,
+  scoring: ScoringProfile
+): MatchResult {
+  const { criteriaTrace, disagreements } = reconcileTraces(
+    rules.criteriaTrace,
+    model.criteriaTrace
+  );
+
+  if (rules.blockingFactors.length > 0) {
+    if (model.category !== 'not_eligible') {
+      disagreements.push({
+        kind: 'overall',
+        subject: 'Overall match',
+        ruleVerdict: 'not eligible',
+        modelVerdict: formatCategory(model.category),
+        resolution: 'rule',
+        explanation: `Hard exclusion found by rules: ${rules.blockingFactors[0].reason}`,
+      });
+    }
+    return { ...rules, criteriaTrace, method: 'hybrid', disagreements };
+  }
+
+  for (const factor of model.blockingFactors) {
+    disagreements.push({
+      kind: 'overall',
+      subject: factor.factor,
+      ruleVerdict: 'no exclusion found',
+      modelVerdict: `excluded: ${factor.reason}`,
+      resolution: 'needs_review',
+      explanation: 'Only the model flagged this exclusion, so it needs confirmation',
+    });
+  }
+  const modelOnlyConcerns = model.blockingFactors.map((f) => `Confirm: ${f.reason}`);
+
+  let score: number;
+  if (model.blockingFactors.length > 0) {
+    score = rules.score - modelOnlyConcerns.length * scoring.uncertaintyPenalty;
+  } else {
+    score = Math.round((rules.score + model.score) / 2);
+  }
+  score = Math.max(0, Math.min(100, score));
+  const category = categorize(score, scoring);
+
+  if (model.blockingFactors.length === 0 && model.category !== rules.category) {
+    disagreements.push({
+      kind: 'overall',
+      subject: 'Overall match',
+      ruleVerdict: formatCategory(rules.category),
+      modelVerdict: formatCategory(model.category),
+      resolution: 'combined',
+      explanation: `Scores were averaged (rules ${rules.score}, model ${model.score})`,
+    });
+  }
+
+  const matchingFactors = [
+    ...rules.matchingFactors,
+    ...model.matchingFactors.filter(
+      (f) => !rules.matchingFactors.some((r) => r.factor === f.factor)
+    ),
+  ];
+  const uncertainFactors = Array.from(
+    new Set([...rules.uncertainFactors, ...model.uncertainFactors, ...modelOnlyConcerns])
+  );
+
+  return {
+    nctId: rules.nctId,
+    score,
+    category,
+    matchingFactors,
+    blockingFactors: [],
+    uncertainFactors,
+    summary: category === model.category
+      ? model.summary
+      : generateSummary(category, matchingFactors, []),
+    criteriaTrace,
+    scoringProfileId: scoring.id,
+    method: 'hybrid',
+    disagreements,
+  };
+}
+
+// ============================================================================
+// Main Agent Function
+// ============================================================================
 
 /**
  * Run the Clinical Matcher agent
  * Compares patient profile against eligibility criteria
  */
-export async function runMatcherAgent(input: MatcherInput): Promise<MatchResult> {
+export async function runMatcherAgent(
+  input: MatcherInput,
+  signal?: AbortSignal
+): Promise<MatchResult> {
   const { patientProfile, eligibilityCriteria, nctId } = input;
+  const scoring = input.scoringProfileId
+    ? getScoringProfile(input.scoringProfileId)
+    : selectScoringProfile(patientProfile.diagnosis);
 
-  console.log(`Matching patient against trial ${nctId}`);
+  console.log(`Matching patient against trial ${nctId} (scoring: ${scoring.id})`);
 
   // Simulate processing delay
   await new Promise((resolve) => setTimeout(resolve, 300));
 
-  if (!USE_RULES_ONLY) {
-    try {
-      // Try LLM-based matching first for better accuracy
-      const llmResult = await matchWithLLM(patientProfile, eligibilityCriteria, nctId);
+  // Rules always run so their hard exclusions apply; the model is a second opinion
+  const rulesResult = matchWithRules(patientProfile, eligibilityCriteria, nctId, scoring);
 
-      if (llmResult) {
-        return llmResult;
-      }
+  if (isLLMConfigured()) {
+    try {
+      const llmResult = await matchWithLLM(
+        patientProfile,
+        eligibilityCriteria,
+        nctId,
+        scoring,
+        signal
+      );
+      return reconcileMatch(rulesResult, llmResult, scoring);
     } catch (error) {
-      console.warn('LLM matching failed, using rule-based fallback:', error);
+      console.warn('LLM matching failed, using rule-based result only:', error);
     }
   }
 
-  // Use rule-based matching
-  return matchWithRules(patientProfile, eligibilityCriteria, nctId);
+  return rulesResult;
+}
+
+/**
+ * Attach the model's per-criterion verdicts to the trial's criteria
+ * Criteria the model skipped are reported as unevaluated
+ */
+function toModelTrace(
+  criteria: EligibilityCriteria,
+  modelTrace: LLMCriterionVerdict[],
+  model: string
+): CriterionTrace[] {
+  return listCriteria(criteria).map(({ criterion, isInclusion }) => {
+    const criterionType = isInclusion ? 'inclusion' : 'exclusion';
+    const verdict = modelTrace.find(
+      (v) => v.criterion === criterion.criterion && v.criterionType === criterionType
+    );
+
+    return {
+      criterion: criterion.criterion,
+      criterionType,
+      category: criterion.category,
+      verdict: verdict?.verdict ?? 'unknown',
+      profileField: verdict?.profileField ?? null,
+      decidedBy: verdict ? { kind: 'model', id: model } : { kind: 'none', id: 'unevaluated' },
+      ...(verdict?.reason && { reason: verdict.reason }),
+    };
+  });
 }
 
 /**
  * LLM-based matching using Toolhouse
+ * The model's score is kept but categorized with the profile's cutoffs
  */
 async function matchWithLLM(
   profile: PatientProfile,
   criteria: EligibilityCriteria,
-  nctId: string
-): Promise<MatchResult | null> {
+  nctId: string,
+  scoring: ScoringProfile,
+  signal?: AbortSignal
+): Promise<MatchResult> {
   const client = createToolhouseClient();
 
-  const result = await runAgent<LLMMatchResponse>(client, 'clinical-matcher', {
-    patientProfile: profile,
-    eligibilityCriteria: criteria,
-    nctId,
-  });
+  const result = await runMatcherAgentWithClient(
+    client,
+    { patientProfile: profile, eligibilityCriteria: criteria, nctId },
+    { signal }
+  );
 
-  if (result.success && result.output) {
-    return {
-      nctId,
-      ...result.output,
-    };
+  if (!result.success) {
+    throw new Error(`clinical-matcher ${result.error.code}: ${result.error.message}`);
   }
 
-  return null;
+  return {
+    nctId,
+    ...result.output,
+    category: result.output.blockingFactors.length > 0
+      ? 'not_eligible'
+      : categorize(result.output.score, scoring),
+    criteriaTrace: toModelTrace(criteria, result.output.criteriaTrace ?? [], result.metadata.model),
+    scoringProfileId: scoring.id,
+    method: 'model',
+    disagreements: [],
+  };
 }
 
 /**
- * Rule-based matching as fallback
+ * Rule-based matching
  */
 function matchWithRules(
   profile: PatientProfile,
   criteria: EligibilityCriteria,
-  nctId: string
+  nctId: string,
+  scoring: ScoringProfile
 ): MatchResult {
   const matchingFactors: MatchingFactor[] = [];
   const blockingFactors: BlockingFactor[] = [];
   const uncertainFactors: string[] = [];
+  const trace = createCriteriaTrace(criteria);
 
   // Check ECOG
-  const ecogResult = checkECOG(profile.ecogScore, criteria);
+  const ecogResult = checkECOG(profile.ecogScore, criteria, trace);
   if (ecogResult.match) {
     matchingFactors.push({
       factor: `ECOG score ${profile.ecogScore} meets requirements`,
-      weight: CRITERIA_WEIGHTS.ecog,
+      weight: scoring.weights.ecog,
     });
   } else if (ecogResult.reason) {
     blockingFactors.push({
       factor: 'ECOG Score',
       reason: ecogResult.reason,
     });
+  } else if (ecogResult.uncertain) {
+    uncertainFactors.push(ecogResult.uncertain);
   }
 
+  // Check stage
+  const stageResult = checkStage(profile.stage, criteria, trace);
+  stageResult.matches.forEach((match) => {
+    matchingFactors.push({
+      factor: match,
+      weight: scoring.weights.stage,
+    });
+  });
+  stageResult.conflicts.forEach((conflict) => {
+    blockingFactors.push({
+      factor: 'Stage',
+      reason: conflict,
+    });
+  });
+  uncertainFactors.push(...stageResult.uncertain);
+
+  // Check lab thresholds (not part of the profile, so always needs confirmation)
+  const labResult = checkLabRequirements(criteria, trace);
+  if (labResult) {
+    uncertainFactors.push(labResult);
+  }
+
+  // Check age, sex and healthy volunteer status
+  const demographicsResult = checkDemographics(profile, criteria, trace);
+  demographicsResult.matches.forEach((match) => {
+    matchingFactors.push({
+      factor: match,
+      weight: scoring.weights.demographics,
+    });
+  });
+  demographicsResult.conflicts.forEach((conflict) => {
+    blockingFactors.push({
+      factor: 'Demographics',
+      reason: conflict,
+    });
+  });
+  uncertainFactors.push(...demographicsResult.uncertain);
+
   // Check biomarkers
-  const biomarkerResult = checkBiomarkers(profile.biomarkers, criteria);
+  const biomarkerResult = checkBiomarkers(profile.biomarkers, criteria, trace);
   biomarkerResult.matches.forEach((match) => {
     matchingFactors.push({
       factor: `Biomarker match: ${match.slice(0, 40)}`,
-      weight: CRITERIA_WEIGHTS.biomarker,
+      weight: scoring.weights.biomarker,
     });
   });
   biomarkerResult.conflicts.forEach((conflict) => {
@@ -354,14 +1161,11 @@ function matchWithRules(
   uncertainFactors.push(...biomarkerResult.uncertain.map((u) => u.slice(0, 50)));
 
   // Check treatment history
-  const treatmentResult = checkTreatmentHistory(
-    profile.previousTreatments,
-    criteria
-  );
+  const treatmentResult = checkTreatmentHistory(profile, criteria, trace);
   treatmentResult.matches.forEach((match) => {
     matchingFactors.push({
       factor: match,
-      weight: CRITERIA_WEIGHTS.treatment,
+      weight: scoring.weights.treatment,
     });
   });
   treatmentResult.conflicts.forEach((conflict) => {
@@ -370,6 +1174,7 @@ function matchWithRules(
       reason: conflict,
     });
   });
+  uncertainFactors.push(...treatmentResult.uncertain);
 
   // Check diagnosis match (basic)
   const diagnosisCriteria = criteria.inclusionCriteria.filter(
@@ -377,15 +1182,19 @@ function matchWithRules(
   );
   if (diagnosisCriteria.length > 0) {
     const diagnosisLower = profile.diagnosis.toLowerCase();
-    const hasMatch = diagnosisCriteria.some((c) =>
+    const matched = diagnosisCriteria.filter((c) =>
       c.criterion.toLowerCase().includes(diagnosisLower) ||
       diagnosisLower.includes(c.criterion.toLowerCase().split(' ')[0])
     );
+    const hasMatch = matched.length > 0;
+
+    // Text overlap can confirm a diagnosis criterion but never rule one out
+    matched.forEach((c) => trace.record(c, 'met', 'diagnosis', 'diagnosis_text'));
 
     if (hasMatch) {
       matchingFactors.push({
         factor: `Diagnosis matches trial requirements`,
-        weight: CRITERIA_WEIGHTS.diagnosis,
+        weight: scoring.weights.diagnosis,
       });
     } else {
       uncertainFactors.push('Diagnosis alignment needs confirmation');
@@ -396,7 +1205,8 @@ function matchWithRules(
   const { score, category } = calculateScore(
     matchingFactors,
     blockingFactors,
-    uncertainFactors
+    uncertainFactors,
+    scoring
   );
 
   // Generate summary
@@ -410,6 +1220,10 @@ function matchWithRules(
     blockingFactors,
     uncertainFactors,
     summary,
+    criteriaTrace: trace.entries(),
+    scoringProfileId: scoring.id,
+    method: 'rules',
+    disagreements: [],
   };
 }
 
@@ -1,74 +1,35 @@
-import { getClinicalTrialsApiBase } from '../../lib/config';
-import { filterByRadius, addDistanceToLocations } from '../../lib/geo-utils';
+import { getClinicalTrialsDataMode } from '../../lib/config';
+import {
+  createClinicalTrialsClient,
+  searchStudies,
+} from '../../lib/clinicaltrials';
+import type { CTGovStudy, StudySearchResult } from '../../lib/clinicaltrials';
+import { filterByRadius, addDistanceToLocations, resolveOrigin } from '../../lib/geo-utils';
+import {
+  addTravelBurden,
+  getTrialTravelBurden,
+  inferVisitSchedule,
+} from '../../lib/travel-burden';
+import { DEFAULT_COUNTRY } from '../../lib/schemas';
 import type {
+  Coordinates,
   ScoutInput,
   TrialDiscoveryOutput,
   Trial,
   Location,
 } from '../../lib/schemas';
 
-// ============================================================================
-// Types
-// ============================================================================
-
-interface CTGovStudy {
-  protocolSection: {
-    identificationModule: {
-      nctId: string;
-      briefTitle: string;
-    };
-    statusModule: {
-      overallStatus: string;
-    };
-    designModule?: {
-      phases?: string[];
-    };
-    sponsorCollaboratorsModule?: {
-      leadSponsor?: {
-        name: string;
-      };
-    };
-    conditionsModule?: {
-      conditions?: string[];
-    };
-    armsInterventionsModule?: {
-      interventions?: Array<{
-        name: string;
-        type: string;
-      }>;
-    };
-    contactsLocationsModule?: {
-      locations?: Array<{
-        facility: string;
-        city: string;
-        state: string;
-        zip: string;
-        country: string;
-      }>;
-    };
-  };
-}
-
-interface CTGovResponse {
-  studies: CTGovStudy[];
-  totalCount: number;
-}
-
 // ============================================================================
 // Constants
 // ============================================================================
 
 const MAX_TRIALS_TO_RETURN = 5;
-const PAGE_SIZE = 20;
-
-// Use mock data in development to avoid CORS issues
-const USE_MOCK_DATA = true;
 
 // ============================================================================
 // Mock Data for Development
 // ============================================================================
 
-function getMockTrials(condition: string): CTGovResponse {
+function getMockTrials(condition: string): StudySearchResult {
   const mockStudies: CTGovStudy[] = [
     {
       protocolSection: {
@@ -191,74 +152,35 @@ function getMockTrials(condition: string): CTGovResponse {
 // ============================================================================
 
 /**
- * Query ClinicalTrials.gov API v2.0
+ * Query ClinicalTrials.gov API v2.0 using the configured data mode
  */
 async function queryClinicalTrials(
   condition: string,
-  zipcode: string,
+  origin: Coordinates | null,
+  country: string,
   radiusMiles: number,
-  phases?: string[]
-): Promise<CTGovResponse> {
-  // Use mock data to avoid CORS issues in browser
-  if (USE_MOCK_DATA) {
+  phases?: string[],
+  signal?: AbortSignal
+): Promise<StudySearchResult> {
+  const mode = getClinicalTrialsDataMode();
+
+  // Mock data avoids CORS issues in the browser during development
+  if (mode === 'mock') {
     console.log('Using mock trial data for development');
     // Simulate network delay
     await new Promise((resolve) => setTimeout(resolve, 1500));
     return getMockTrials(condition);
   }
 
-  const baseUrl = getClinicalTrialsApiBase();
-  const url = new URL(`${baseUrl}/studies`);
+  const client = createClinicalTrialsClient(mode);
 
-  // Build query parameters
-  url.searchParams.set('query.cond', condition);
-  url.searchParams.set('filter.overallStatus', 'RECRUITING');
-  url.searchParams.set('filter.studyType', 'INTERVENTIONAL');
-  url.searchParams.set('pageSize', String(PAGE_SIZE));
-
-  // Add geographic filter if available
-  if (zipcode) {
-    url.searchParams.set('filter.geo', `distance(${zipcode},${radiusMiles}mi)`);
-  }
-
-  // Add phase filter if specified
-  if (phases && phases.length > 0) {
-    url.searchParams.set('filter.phase', phases.join(','));
-  }
-
-  // Request specific fields
-  url.searchParams.set(
-    'fields',
-    [
-      'NCTId',
-      'BriefTitle',
-      'Phase',
-      'OverallStatus',
-      'LeadSponsorName',
-      'Condition',
-      'InterventionName',
-      'LocationFacility',
-      'LocationCity',
-      'LocationState',
-      'LocationZip',
-      'LocationCountry',
-    ].join(',')
-  );
-
-  const response = await fetch(url.toString(), {
-    headers: {
-      Accept: 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    }
-    throw new Error(`ClinicalTrials.gov API error: ${response.statusText}`);
-  }
-
-  return response.json();
+  return searchStudies(client, {
+    condition,
+    coordinates: origin,
+    radiusMiles,
+    country,
+    phases,
+  }, { signal });
 }
 
 // ============================================================================
@@ -279,6 +201,15 @@ function mapPhase(phases?: string[]): Trial['phase'] {
   return 'N/A';
 }
 
+/**
+ * Put sites in the patient's country first, for when distances are unknown
+ */
+function sortByCountry(locations: Location[], country: string): Location[] {
+  return [...locations].sort(
+    (a, b) => Number(b.country === country) - Number(a.country === country)
+  );
+}
+
 /**
  * Transform API study to our Trial schema
  */
@@ -288,20 +219,27 @@ function transformStudyToTrial(study: CTGovStudy): Trial {
 
   const nctId = identificationModule.nctId;
 
-  // Extract locations (US only)
+  // Extract locations in every country, with the registry's coordinates when it has them
   const rawLocations = protocolSection.contactsLocationsModule?.locations || [];
-  const locations: Location[] = rawLocations
-    .filter((loc) => loc.country === 'United States')
-    .map((loc) => ({
-      facility: loc.facility || 'Unknown Facility',
-      city: loc.city || '',
-      state: loc.state || '',
-      zipcode: loc.zip || '',
-    }));
+  const locations: Location[] = rawLocations.map((loc) => ({
+    facility: loc.facility || 'Unknown Facility',
+    city: loc.city || '',
+    state: loc.state || '',
+    zipcode: loc.zip || '',
+    country: loc.country || DEFAULT_COUNTRY,
+    ...(loc.geoPoint && { coordinates: { lat: loc.geoPoint.lat, lng: loc.geoPoint.lon } }),
+  }));
 
   // Extract interventions
-  const interventions =
-    protocolSection.armsInterventionsModule?.interventions?.map((i) => i.name) || [];
+  const armsInterventions = protocolSection.armsInterventionsModule;
+  const interventions = armsInterventions?.interventions?.map((i) => i.name) || [];
+
+  // Visit frequency comes from the dosing schedules in the arm and intervention text
+  const visitSchedule = inferVisitSchedule(
+    [...(armsInterventions?.armGroups ?? []), ...(armsInterventions?.interventions ?? [])]
+      .map((item) => item.description)
+      .filter((description): description is string => Boolean(description))
+  );
 
   return {
     nctId,
@@ -312,6 +250,7 @@ function transformStudyToTrial(study: CTGovStudy): Trial {
     conditions: protocolSection.conditionsModule?.conditions || [],
     interventions,
     locations,
+    visitSchedule,
     url: `https://clinicaltrials.gov/study/${nctId}`,
   };
 }
@@ -324,28 +263,32 @@ function transformStudyToTrial(study: CTGovStudy): Trial {
  * Run the Clinical Trial Scout agent
  * Discovers actively recruiting trials matching patient condition and location
  */
-export async function runScoutAgent(input: ScoutInput): Promise<TrialDiscoveryOutput> {
-  const { diagnosis, zipcode, travelRadiusMiles, phase } = input;
+export async function runScoutAgent(
+  input: ScoutInput,
+  signal?: AbortSignal
+): Promise<TrialDiscoveryOutput> {
+  const { diagnosis, country, zipcode, coordinates, travelRadiusMiles, phase } = input;
+  const searchParams = { diagnosis, country, zipcode, travelRadiusMiles, phase };
 
   try {
+    // Without a known origin the search falls back to the patient's country
+    const origin = await resolveOrigin({ country, zipcode, coordinates });
+
     // Query ClinicalTrials.gov API
     const response = await queryClinicalTrials(
       diagnosis,
-      zipcode,
+      origin,
+      country,
       travelRadiusMiles,
-      phase
+      phase,
+      signal
     );
 
     if (!response.studies || response.studies.length === 0) {
       return {
         trials: [],
         totalFound: 0,
-        searchParams: {
-          diagnosis,
-          zipcode,
-          travelRadiusMiles,
-          phase,
-        },
+        searchParams,
       };
     }
 
@@ -353,35 +296,56 @@ export async function runScoutAgent(input: ScoutInput): Promise<TrialDiscoveryOu
     let trials = response.studies.map(transformStudyToTrial);
 
     // Filter by location radius and add distances
-    trials = trials.map((trial) => {
-      if (trial.locations.length === 0) {
-        return trial;
-      }
+    trials = await Promise.all(
+      trials.map(async (trial) => {
+        if (trial.locations.length === 0) {
+          return trial;
+        }
+
+        if (!origin) {
+          return { ...trial, locations: sortByCountry(trial.locations, country) };
+        }
+
+        const filteredLocations = await filterByRadius(
+          trial.locations,
+          origin,
+          travelRadiusMiles
+        );
+
+        // If no locations match the radius, keep original locations with estimated distances
+        const locations =
+          filteredLocations.length > 0
+            ? filteredLocations
+            : await addDistanceToLocations(trial.locations, origin);
 
-      const filteredLocations = filterByRadius(trial.locations, zipcode, travelRadiusMiles);
-
-      // If no locations match the radius, keep original locations with estimated distances
-      if (filteredLocations.length === 0) {
         return {
           ...trial,
-          locations: addDistanceToLocations(trial.locations, zipcode),
+          locations: trial.visitSchedule
+            ? addTravelBurden(locations, trial.visitSchedule)
+            : locations,
         };
-      }
-
-      return {
-        ...trial,
-        locations: filteredLocations,
-      };
-    });
+      })
+    );
 
     // Keep all trials (don't filter out based on location for mock data)
     // trials = trials.filter((trial) => trial.locations.length > 0);
 
-    // Sort by closest location distance
+    // Sort by least travel burden, then closest location distance, then by having
+    // a site in the patient's country
     trials.sort((a, b) => {
+      const burdenA = getTrialTravelBurden(a)?.monthlyHours ?? Infinity;
+      const burdenB = getTrialTravelBurden(b)?.monthlyHours ?? Infinity;
+      if (burdenA !== burdenB) {
+        return burdenA - burdenB;
+      }
       const distA = a.locations[0]?.distance ?? Infinity;
       const distB = b.locations[0]?.distance ?? Infinity;
-      return distA - distB;
+      if (distA !== distB) {
+        return distA - distB;
+      }
+      return (
+        Number(b.locations[0]?.country === country) - Number(a.locations[0]?.country === country)
+      );
     });
 
     // Limit to top N trials
@@ -390,64 +354,12 @@ export async function runScoutAgent(input: ScoutInput): Promise<TrialDiscoveryOu
     return {
       trials: topTrials,
       totalFound: response.totalCount,
-      searchParams: {
-        diagnosis,
-        zipcode,
-        travelRadiusMiles,
-        phase,
-      },
+      searchParams,
     };
   } catch (error) {
     console.error('Scout agent error:', error);
 
-    // Return empty results on error
-    return {
-      trials: [],
-      totalFound: 0,
-      searchParams: {
-        diagnosis,
-        zipcode,
-        travelRadiusMiles,
-        phase,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      },
-    };
-  }
-}
-
-// ============================================================================
-// Retry Wrapper
-// ============================================================================
-
-/**
- * Run scout agent with retry logic
- */
-export async function runScoutAgentWithRetry(
-  input: ScoutInput,
-  maxRetries: number = 2
-): Promise<TrialDiscoveryOutput> {
-  let lastError: Error | undefined;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await runScoutAgent(input);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (attempt < maxRetries) {
-        // Wait before retry (exponential backoff)
-        await new Promise((resolve) => setTimeout(resolve, 1000 * Math.pow(2, attempt)));
-      }
-    }
+    // A failed search must not look like one that found nothing
+    throw error;
   }
-
-  // Return empty results after all retries failed
-  return {
-    trials: [],
-    totalFound: 0,
-    searchParams: {
-      ...input,
-      error: lastError?.message || 'Failed after retries',
-    },
-  };
 }
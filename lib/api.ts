@@ -0,0 +1,92 @@
+import { getApiBase } from './config';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// The API server rate-limits by this header
+export const SESSION_HEADER = 'X-Session-Id';
+
+const SESSION_STORAGE_KEY = 'clinical-matchmaker-session-id';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Third-party services reached through the API server
+export type ApiService = 'rtrvr' | 'elevenlabs';
+
+export interface ServiceEndpoint {
+  baseUrl: string;
+  headers: Record<string, string>;
+}
+
+// ============================================================================
+// Session
+// ============================================================================
+
+let sessionId: string | null = null;
+
+/**
+ * Anonymous id for this browser tab, kept for the tab's lifetime
+ */
+export function getSessionId(): string {
+  if (sessionId) {
+    return sessionId;
+  }
+
+  const storage = typeof sessionStorage === 'undefined' ? null : sessionStorage;
+  sessionId = storage?.getItem(SESSION_STORAGE_KEY) ?? crypto.randomUUID();
+  storage?.setItem(SESSION_STORAGE_KEY, sessionId);
+
+  return sessionId;
+}
+
+// ============================================================================
+// Request Helpers
+// ============================================================================
+
+/**
+ * Absolute URL for an API server path such as "/llm/complete"
+ */
+export function apiUrl(path: string): string {
+  return `${getApiBase().replace(/\/+$/, '')}${path}`;
+}
+
+/**
+ * Headers every API server request carries
+ */
+export function apiHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    [SESSION_HEADER]: getSessionId(),
+    ...extra,
+  };
+}
+
+// ============================================================================
+// Service Endpoints
+// ============================================================================
+
+const endpointOverrides = new Map<ApiService, ServiceEndpoint>();
+
+/**
+ * Where requests for a service go: the API server's proxy route by default
+ */
+export function getServiceEndpoint(service: ApiService): ServiceEndpoint {
+  return endpointOverrides.get(service) ?? {
+    baseUrl: apiUrl(`/${service}`),
+    headers: apiHeaders(),
+  };
+}
+
+/**
+ * Call a service directly instead of through the proxy (pass null to reset)
+ * The API server uses this to run the pipeline with its own keys.
+ */
+export function setServiceEndpoint(service: ApiService, endpoint: ServiceEndpoint | null): void {
+  if (endpoint) {
+    endpointOverrides.set(service, endpoint);
+  } else {
+    endpointOverrides.delete(service);
+  }
+}
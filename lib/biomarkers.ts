@@ -0,0 +1,376 @@
+import type {
+  Biomarker,
+  BiomarkerExpression,
+  BiomarkerStatus,
+  Comparator,
+} from './schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface GeneDefinition {
+  gene: string;
+  label: string;
+  pattern: RegExp;
+  // Names like "MSS" or "MSI-H" already carry a status
+  status?: BiomarkerStatus;
+}
+
+type AlterationKind = 'mutation' | 'fusion' | 'amplification' | 'overexpression';
+
+interface AlterationDefinition {
+  alteration: string;
+  kind: AlterationKind;
+  pattern: RegExp;
+  // Variants that only occur in one gene, so "T790M" alone still resolves to EGFR
+  gene?: string;
+}
+
+interface GeneMention {
+  gene: GeneDefinition;
+  index: number;
+  end: number;
+}
+
+// ============================================================================
+// Synonym Tables
+// ============================================================================
+
+// All patterns are global so every mention in a criterion is found
+const GENES: GeneDefinition[] = [
+  { gene: 'EGFR', label: 'EGFR', pattern: /\b(egfr|erbb1|her1)\b/gi },
+  { gene: 'ERBB2', label: 'HER2', pattern: /\b(erbb2|her-?2(?:\/neu)?)\b/gi },
+  { gene: 'ALK', label: 'ALK', pattern: /\balk\b/gi },
+  { gene: 'ROS1', label: 'ROS1', pattern: /\bros-?1\b/gi },
+  { gene: 'KRAS', label: 'KRAS', pattern: /\bk-?ras\b/gi },
+  { gene: 'NRAS', label: 'NRAS', pattern: /\bn-?ras\b/gi },
+  { gene: 'BRAF', label: 'BRAF', pattern: /\bbraf\b/gi },
+  // "ret" and "met" are English words, so only the upper-case gene names count
+  { gene: 'RET', label: 'RET', pattern: /\bRET\b/g },
+  { gene: 'MET', label: 'MET', pattern: /\bMET\b|\b[cC]-?[mM][eE][tT]\b/g },
+  { gene: 'NTRK', label: 'NTRK', pattern: /\bntrk[1-3]?\b/gi },
+  { gene: 'PD-L1', label: 'PD-L1', pattern: /\b(pd-?l1|cd274)\b/gi },
+  { gene: 'BRCA1', label: 'BRCA1', pattern: /\bbrca1\b/gi },
+  { gene: 'BRCA2', label: 'BRCA2', pattern: /\bbrca2\b/gi },
+  {
+    gene: 'MSI',
+    label: 'MSI-H',
+    pattern: /\b(msi-?h(?:igh)?|dmmr|microsatellite instability[- ]high|mismatch repair[- ]deficient)\b/gi,
+    status: 'positive',
+  },
+  {
+    gene: 'MSI',
+    label: 'MSI-H',
+    pattern: /\b(mss|pmmr|microsatellite stable|mismatch repair[- ]proficient)\b/gi,
+    status: 'negative',
+  },
+  { gene: 'TMB', label: 'TMB', pattern: /\b(tmb|tumou?r mutational burden)\b/gi },
+];
+
+// Specific variants first; generic kinds only apply when no variant is named
+const ALTERATIONS: AlterationDefinition[] = [
+  { alteration: 'Ex19del', kind: 'mutation', gene: 'EGFR', pattern: /\b(ex(?:on)?\s?19(?:\s*del(?:etion)?s?)?|19del)\b/i },
+  { alteration: 'L858R', kind: 'mutation', gene: 'EGFR', pattern: /\bl858r\b/i },
+  { alteration: 'T790M', kind: 'mutation', gene: 'EGFR', pattern: /\bt790m\b/i },
+  { alteration: 'C797S', kind: 'mutation', gene: 'EGFR', pattern: /\bc797s\b/i },
+  { alteration: 'Ex20ins', kind: 'mutation', pattern: /\bex(?:on)?\s?20\s*ins(?:ertion)?s?\b/i },
+  { alteration: 'G12C', kind: 'mutation', gene: 'KRAS', pattern: /\bg12c\b/i },
+  { alteration: 'G12D', kind: 'mutation', gene: 'KRAS', pattern: /\bg12d\b/i },
+  { alteration: 'V600E', kind: 'mutation', gene: 'BRAF', pattern: /\bv600e\b/i },
+  { alteration: 'Ex14 skipping', kind: 'mutation', gene: 'MET', pattern: /\bex(?:on)?\s?14(?:\s*skipping)?\b/i },
+  { alteration: 'fusion', kind: 'fusion', pattern: /\b(fusions?|rearrange(?:d|ments?)|translocations?)\b/i },
+  { alteration: 'amplification', kind: 'amplification', pattern: /\b(amplif(?:ied|ication)|amp)\b/i },
+  { alteration: 'overexpression', kind: 'overexpression', pattern: /\b(overexpress(?:ed|ion)|ihc\s*3\+)/i },
+  { alteration: 'mutation', kind: 'mutation', pattern: /\b(mutations?|mutated|mutant|activating|sensitizing)\b/i },
+];
+
+const ALTERATION_KINDS: Record<string, AlterationKind> = Object.fromEntries(
+  ALTERATIONS.map((a) => [a.alteration, a.kind])
+);
+
+const GENE_LABELS: Record<string, string> = Object.fromEntries(
+  GENES.map((g) => [g.gene, g.label])
+);
+
+// "anti-HER2 antibody" and "EGFR TKI" name a therapy, not a biomarker
+const THERAPY_BEFORE = /anti-?\s*$/i;
+const THERAPY_AFTER = /^\s*-?\s*(tkis?|inhibitors?|targeted|directed|antibod(?:y|ies)|adcs?|agents?|therapy)\b/i;
+
+const NEGATION_BEFORE = /\b(no|not|without|absence of|lack of|negative for)\b[^,;.()]*$/i;
+const NEGATIVE_AFTER = /^\s*-\s*(?:$|[,;)])|\b(negative|neg|wild[- ]?type|wt|not detected|absent)\b/i;
+
+const EXPRESSION_VALUE =
+  /(≥|>=|=>|≤|<=|=<|>|<|at least|greater than or equal to|greater than|more than|less than|of)?\s*(\d+(?:\.\d+)?)\s*(%|mut\/mb)/i;
+
+// "PD-L1 high" conventionally means TPS ≥ 50%
+const HIGH_EXPRESSION: Record<string, BiomarkerExpression> = {
+  'PD-L1': { comparator: '>=', value: 50, unit: '%' },
+  TMB: { comparator: '>=', value: 10, unit: 'mut/Mb' },
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function toComparator(phrase: string | undefined): Comparator {
+  if (!phrase) return '=';
+  if (/^(≥|>=|=>|at least|greater than or equal to)$/i.test(phrase)) return '>=';
+  if (/^(≤|<=|=<)$/i.test(phrase)) return '<=';
+  if (/^(>|greater than|more than)$/i.test(phrase)) return '>';
+  if (/^(<|less than)$/i.test(phrase)) return '<';
+  return '=';
+}
+
+function findGeneMentions(text: string): GeneMention[] {
+  const mentions = GENES.flatMap((gene) =>
+    Array.from(text.matchAll(gene.pattern))
+      .filter((m) => m.index !== undefined)
+      .map((m) => ({ gene, index: m.index!, end: m.index! + m[0].length }))
+  )
+    .filter((m) => !THERAPY_BEFORE.test(text.slice(0, m.index)) && !THERAPY_AFTER.test(text.slice(m.end)))
+    .sort((a, b) => a.index - b.index);
+
+  // "HER2 (ERBB2)" names one gene twice
+  return mentions.reduce<GeneMention[]>((merged, mention) => {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.gene.gene === mention.gene.gene &&
+      /^[\s()/,-]*$/.test(text.slice(previous.end, mention.index))
+    ) {
+      previous.end = Math.max(previous.end, mention.end);
+      return merged;
+    }
+    return [...merged, { ...mention }];
+  }, []);
+}
+
+function findAlterations(text: string, gene?: string): AlterationDefinition[] {
+  const found = ALTERATIONS.filter((a) => a.pattern.test(text) && (!gene || !a.gene || a.gene === gene));
+  const specific = found.filter((a) => a.alteration !== a.kind);
+
+  // "EGFR mutation (Ex19del or L858R)" is about the named variants
+  return specific.length > 0
+    ? [...specific, ...found.filter((a) => a.alteration === a.kind && !specific.some((s) => s.kind === a.kind))]
+    : found;
+}
+
+function findExpression(gene: string, text: string): BiomarkerExpression | undefined {
+  const value = text.match(EXPRESSION_VALUE);
+  if (value) {
+    return {
+      comparator: toComparator(value[1]),
+      value: parseFloat(value[2]),
+      unit: value[3].toLowerCase() === '%' ? '%' : 'mut/Mb',
+    };
+  }
+  if (HIGH_EXPRESSION[gene] && /^\W*(-|\s)?(high|hi)\b/i.test(text)) {
+    return HIGH_EXPRESSION[gene];
+  }
+  return undefined;
+}
+
+/**
+ * Resolve free text ("EGFR exon 19 deletion", "HER2-", "PD-L1 TPS ≥ 50%") into biomarkers
+ * A gene list sharing one description ("EGFR, ALK or ROS1 alteration") yields one biomarker per gene
+ */
+export function parseBiomarkers(text: string): Biomarker[] {
+  const mentions = findGeneMentions(text);
+  const biomarkers: Biomarker[] = [];
+
+  // Text after each mention, up to the next mention
+  const segments = mentions.map((mention, i) =>
+    text.slice(mention.end, mentions[i + 1]?.index ?? text.length).split(';')[0]
+  );
+
+  let groupStart = 0;
+  mentions.forEach((_, i) => {
+    // A bare conjunction means this gene shares the next gene's description
+    if (i < mentions.length - 1 && /^\s*(,|\/|and|or|,\s*(and|or))\s*$/i.test(segments[i])) {
+      return;
+    }
+
+    const group = mentions.slice(groupStart, i + 1);
+    const prefix = text.slice(groupStart === 0 ? 0 : mentions[groupStart - 1].end, group[0].index);
+    const description = segments[i];
+    const negated = NEGATION_BEFORE.test(prefix) || NEGATIVE_AFTER.test(description.split(',')[0]);
+    groupStart = i + 1;
+
+    for (const { gene } of group) {
+      const status: BiomarkerStatus = gene.status ?? (negated ? 'negative' : 'positive');
+      const expression = findExpression(gene.gene, description);
+      const alterations = findAlterations(description, gene.gene);
+
+      if (alterations.length === 0) {
+        biomarkers.push({ gene: gene.gene, status, ...(expression && { expression }) });
+        continue;
+      }
+      for (const alteration of alterations) {
+        biomarkers.push({ gene: gene.gene, alteration: alteration.alteration, status });
+      }
+    }
+  });
+
+  // Variants named without their gene ("T790M resistance mutation")
+  for (const alteration of findAlterations(text)) {
+    if (alteration.gene && !biomarkers.some((b) => b.gene === alteration.gene)) {
+      const prefix = text.slice(0, text.search(alteration.pattern));
+      biomarkers.push({
+        gene: alteration.gene,
+        alteration: alteration.alteration,
+        status: NEGATION_BEFORE.test(prefix) ? 'negative' : 'positive',
+      });
+    }
+  }
+
+  return biomarkers;
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+function satisfies(value: number, comparator: Comparator, threshold: number): boolean {
+  switch (comparator) {
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '=': return value === threshold;
+  }
+}
+
+/**
+ * Whether a patient's expression level meets a required threshold
+ * A patient value like "> 50%" is a range, so it only fits if the whole range does
+ */
+function expressionFits(patient: Biomarker, required: BiomarkerExpression): boolean | null {
+  // A negative result is below the usual 1% positivity cut-off
+  const level = patient.expression ??
+    (patient.status === 'negative' ? { comparator: '<' as const, value: 1, unit: required.unit } : null);
+
+  if (!level || level.unit !== required.unit) {
+    return null;
+  }
+
+  const epsilon = 0.001;
+  const [low, high] = {
+    '=': [level.value, level.value],
+    '>': [level.value + epsilon, Infinity],
+    '>=': [level.value, Infinity],
+    '<': [0, level.value - epsilon],
+    '<=': [0, level.value],
+  }[level.comparator];
+
+  const lowFits = satisfies(low, required.comparator, required.value);
+
+  // Open-ended ranges only fit entirely for lower-bound thresholds
+  if (high === Infinity) {
+    const lowerBound = required.comparator === '>' || required.comparator === '>=';
+    if (lowerBound) return lowFits ? true : null;
+    return lowFits ? null : false;
+  }
+
+  const highFits = satisfies(high, required.comparator, required.value);
+
+  if (lowFits && highFits) return true;
+  if (!lowFits && !highFits) return false;
+  return null;
+}
+
+/**
+ * Whether a patient's alteration is the one a criterion names
+ */
+function alterationFits(patient: Biomarker, required: Biomarker): boolean | null {
+  if (!required.alteration || patient.alteration === required.alteration) return true;
+
+  const requiredKind = ALTERATION_KINDS[required.alteration];
+
+  // "EGFR+" usually means a driver mutation, but not which one
+  if (!patient.alteration) {
+    return required.alteration === requiredKind ? true : null;
+  }
+
+  if (ALTERATION_KINDS[patient.alteration] !== requiredKind) return false;
+  if (required.alteration === requiredKind) return true;
+  if (patient.alteration === requiredKind) return null;
+  return false;
+}
+
+function biomarkerFits(patient: Biomarker, required: Biomarker): boolean | null {
+  if (required.expression) {
+    return expressionFits(patient, required.expression);
+  }
+
+  if (required.status === 'negative') {
+    if (patient.status === 'negative') return true;
+    const fits = alterationFits(patient, required);
+    return fits === null ? null : !fits;
+  }
+
+  if (patient.status === 'negative') {
+    // "EGFR T790M negative" says nothing about Ex19del
+    if (patient.alteration && required.alteration && patient.alteration !== required.alteration) {
+      return null;
+    }
+    return false;
+  }
+
+  return alterationFits(patient, required);
+}
+
+/**
+ * Whether the patient has any biomarker result for a gene
+ */
+export function hasBiomarkerFor(patient: Biomarker[], gene: string): boolean {
+  return patient.some((b) => b.gene === gene);
+}
+
+/**
+ * Check a required biomarker against the patient's biomarkers
+ * Returns null when the patient's results are missing or not specific enough
+ */
+export function matchBiomarker(patient: Biomarker[], required: Biomarker): boolean | null {
+  const results = patient
+    .filter((b) => b.gene === required.gene)
+    .map((b) => biomarkerFits(b, required));
+
+  if (results.includes(true)) return true;
+  if (results.length > 0 && results.every((r) => r === false)) return false;
+  return null;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const COMPARATOR_SYMBOLS: Record<Comparator, string> = {
+  '<': '<',
+  '<=': '≤',
+  '>': '>',
+  '>=': '≥',
+  '=': '',
+};
+
+/**
+ * Human-readable biomarker, e.g. "EGFR Ex19del", "PD-L1 ≥50%", "ALK negative"
+ */
+export function formatBiomarker(biomarker: Biomarker): string {
+  const parts = [GENE_LABELS[biomarker.gene] ?? biomarker.gene];
+
+  if (biomarker.alteration) {
+    parts.push(biomarker.alteration);
+  }
+  if (biomarker.expression) {
+    const { comparator, value, unit } = biomarker.expression;
+    parts.push(`${COMPARATOR_SYMBOLS[comparator]}${value}${unit === '%' ? '%' : ` ${unit}`}`);
+  }
+  if (biomarker.status === 'negative') {
+    parts.push('negative');
+  } else if (!biomarker.alteration && !biomarker.expression) {
+    parts.push('positive');
+  }
+
+  return parts.join(' ');
+}
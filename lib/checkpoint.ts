@@ -0,0 +1,156 @@
+import { CHECKPOINT_STORE, getObjectStore, promisify } from './idb';
+import { PatientProfileSchema, PipelineCheckpointSchema } from './schemas';
+import type { PatientProfile, PipelineCheckpoint } from './schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CheckpointStore {
+  load(runId: string): Promise<PipelineCheckpoint | null>;
+  save(checkpoint: PipelineCheckpoint): Promise<void>;
+  remove(runId: string): Promise<void>;
+}
+
+/**
+ * The run this tab is working on, kept across reloads
+ */
+export interface ActiveRun {
+  runId: string;
+  patientProfile: PatientProfile;
+  // The API server job running it, when the pipeline runs on the server
+  jobId?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Abandoned checkpoints are deleted once they are this old
+const CHECKPOINT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const ACTIVE_RUN_KEY = 'clinical-matchmaker-active-run';
+
+// ============================================================================
+// IndexedDB Store
+// ============================================================================
+
+/**
+ * Keep checkpoints in IndexedDB, so they survive a reload
+ */
+export function createIndexedDBCheckpointStore(): CheckpointStore {
+  let swept = false;
+
+  async function sweep(): Promise<void> {
+    const store = await getObjectStore(CHECKPOINT_STORE, 'readwrite');
+    const cutoff = Date.now() - CHECKPOINT_MAX_AGE_MS;
+    const all: unknown[] = await promisify(store.getAll());
+
+    for (const entry of all) {
+      const parsed = PipelineCheckpointSchema.safeParse(entry);
+      if (!parsed.success || Date.parse(parsed.data.updatedAt) < cutoff) {
+        store.delete((entry as { runId: IDBValidKey }).runId);
+      }
+    }
+  }
+
+  return {
+    async load(runId) {
+      if (!swept) {
+        swept = true;
+        await sweep();
+      }
+      const store = await getObjectStore(CHECKPOINT_STORE, 'readonly');
+      const parsed = PipelineCheckpointSchema.safeParse(await promisify(store.get(runId)));
+      return parsed.success ? parsed.data : null;
+    },
+
+    async save(checkpoint) {
+      const store = await getObjectStore(CHECKPOINT_STORE, 'readwrite');
+      await promisify(store.put(checkpoint));
+    },
+
+    async remove(runId) {
+      const store = await getObjectStore(CHECKPOINT_STORE, 'readwrite');
+      await promisify(store.delete(runId));
+    },
+  };
+}
+
+// ============================================================================
+// Memory Store
+// ============================================================================
+
+/**
+ * Keep checkpoints in memory, for environments without IndexedDB; a retry
+ * still skips finished trials, but a reload starts over
+ */
+export function createMemoryCheckpointStore(): CheckpointStore {
+  const checkpoints = new Map<string, PipelineCheckpoint>();
+
+  return {
+    async load(runId) {
+      return checkpoints.get(runId) ?? null;
+    },
+    async save(checkpoint) {
+      checkpoints.set(checkpoint.runId, checkpoint);
+    },
+    async remove(runId) {
+      checkpoints.delete(runId);
+    },
+  };
+}
+
+export function createCheckpointStore(): CheckpointStore {
+  return typeof indexedDB === 'undefined'
+    ? createMemoryCheckpointStore()
+    : createIndexedDBCheckpointStore();
+}
+
+// ============================================================================
+// Active Run
+// ============================================================================
+
+export function getActiveRun(): ActiveRun | null {
+  const stored = sessionStorage.getItem(ACTIVE_RUN_KEY);
+  if (stored === null) {
+    return null;
+  }
+
+  try {
+    const { runId, patientProfile, jobId } = JSON.parse(stored);
+    if (typeof runId !== 'string') {
+      return null;
+    }
+    return {
+      runId,
+      patientProfile: PatientProfileSchema.parse(patientProfile),
+      ...(typeof jobId === 'string' && { jobId }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a new run for this profile, replacing any earlier one
+ */
+export function startActiveRun(patientProfile: PatientProfile): ActiveRun {
+  const run: ActiveRun = { runId: crypto.randomUUID(), patientProfile };
+  sessionStorage.setItem(ACTIVE_RUN_KEY, JSON.stringify(run));
+  return run;
+}
+
+/**
+ * Record the API server job now running the active run
+ */
+export function setActiveRunJob(jobId: string): void {
+  const run = getActiveRun();
+  if (run) {
+    sessionStorage.setItem(ACTIVE_RUN_KEY, JSON.stringify({ ...run, jobId }));
+  }
+}
+
+export function clearActiveRun(): void {
+  sessionStorage.removeItem(ACTIVE_RUN_KEY);
+}
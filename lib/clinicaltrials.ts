@@ -0,0 +1,470 @@
+import { getClinicalTrialsApiBase } from './config';
+import type { ClinicalTrialsDataMode } from './config';
+import { callService, createServiceError } from './resilience';
+import type { Coordinates } from './schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CTGovLocation {
+  facility?: string;
+  status?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  country?: string;
+  geoPoint?: {
+    lat: number;
+    lon: number;
+  };
+}
+
+export interface CTGovStudy {
+  protocolSection: {
+    identificationModule: {
+      nctId: string;
+      briefTitle: string;
+      officialTitle?: string;
+    };
+    statusModule: {
+      overallStatus: string;
+      lastUpdatePostDateStruct?: {
+        date: string;
+      };
+    };
+    designModule?: {
+      studyType?: string;
+      phases?: string[];
+    };
+    sponsorCollaboratorsModule?: {
+      leadSponsor?: {
+        name: string;
+      };
+    };
+    conditionsModule?: {
+      conditions?: string[];
+      keywords?: string[];
+    };
+    armsInterventionsModule?: {
+      armGroups?: Array<{
+        label: string;
+        type?: string;
+        description?: string;
+      }>;
+      interventions?: Array<{
+        name: string;
+        type: string;
+        description?: string;
+      }>;
+    };
+    eligibilityModule?: {
+      eligibilityCriteria?: string;
+      healthyVolunteers?: boolean;
+      sex?: 'ALL' | 'FEMALE' | 'MALE';
+      minimumAge?: string;
+      maximumAge?: string;
+      stdAges?: string[];
+    };
+    contactsLocationsModule?: {
+      locations?: CTGovLocation[];
+    };
+  };
+}
+
+export interface CTGovPage {
+  studies: CTGovStudy[];
+  totalCount?: number;
+  nextPageToken?: string;
+}
+
+export interface ClinicalTrialsClient {
+  mode: Exclude<ClinicalTrialsDataMode, 'mock'>;
+  baseUrl: string;
+}
+
+export interface StudySearchParams {
+  condition: string;
+  coordinates?: Coordinates | null;
+  radiusMiles?: number;
+  // Only used without coordinates, since a radius can cross borders
+  country?: string;
+  phases?: string[];
+}
+
+export interface StudySearchOptions {
+  pageSize?: number;
+  maxPages?: number;
+  signal?: AbortSignal;
+}
+
+export interface StudySearchResult {
+  studies: CTGovStudy[];
+  totalCount: number;
+}
+
+/**
+ * A recorded search, as written by scripts/record-clinicaltrials-fixture.mjs
+ */
+export interface ClinicalTrialsFixture {
+  recordedAt: string;
+  condition: string;
+  pages: CTGovPage[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Safety cap so a very broad condition cannot page through the whole registry
+const DEFAULT_MAX_PAGES = 10;
+
+const STUDY_FIELDS = [
+  'protocolSection.identificationModule',
+  'protocolSection.statusModule',
+  'protocolSection.designModule',
+  'protocolSection.sponsorCollaboratorsModule',
+  'protocolSection.conditionsModule',
+  'protocolSection.armsInterventionsModule',
+  'protocolSection.eligibilityModule',
+  'protocolSection.contactsLocationsModule',
+];
+
+// Recorded responses are loaded lazily so they never end up in the live bundle
+const FIXTURE_LOADERS = import.meta.glob<ClinicalTrialsFixture>(
+  '../fixtures/clinicaltrials/*.json',
+  { import: 'default' }
+);
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+// Studies seen in search results, so the Extractor does not refetch them.
+// The API server runs this module for as long as it is up, so entries expire
+// and the oldest are dropped past the size limit.
+const STUDY_CACHE_TTL_MS = 60 * 60 * 1000;
+const STUDY_CACHE_MAX_ENTRIES = 1000;
+
+const studyCache = new Map<string, { study: CTGovStudy; cachedAt: number }>();
+
+function cacheStudy(study: CTGovStudy): void {
+  const nctId = study.protocolSection.identificationModule.nctId;
+  // Re-inserted so the map stays in the order entries were cached
+  studyCache.delete(nctId);
+  studyCache.set(nctId, { study, cachedAt: Date.now() });
+
+  if (studyCache.size > STUDY_CACHE_MAX_ENTRIES) {
+    const oldest = studyCache.keys().next().value;
+    if (oldest !== undefined) {
+      studyCache.delete(oldest);
+    }
+  }
+}
+
+function getCachedStudy(nctId: string): CTGovStudy | null {
+  const entry = studyCache.get(nctId);
+  if (!entry) {
+    return null;
+  }
+  if (Date.now() - entry.cachedAt >= STUDY_CACHE_TTL_MS) {
+    studyCache.delete(nctId);
+    return null;
+  }
+  return entry.study;
+}
+
+// ============================================================================
+// Client Creation
+// ============================================================================
+
+/**
+ * Create a ClinicalTrials.gov v2 client
+ * In fixture mode, pages are replayed from fixtures/clinicaltrials instead of the network
+ */
+export function createClinicalTrialsClient(
+  mode: ClinicalTrialsClient['mode'] = 'live'
+): ClinicalTrialsClient {
+  return {
+    mode,
+    baseUrl: getClinicalTrialsApiBase(),
+  };
+}
+
+// ============================================================================
+// Query Construction
+// ============================================================================
+
+/**
+ * Normalize phase labels ("Phase 2", "phase2") to the API's PHASE2 form
+ */
+function toApiPhase(phase: string): string {
+  return phase.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Build the query parameters for a study search page
+ */
+export function buildSearchQuery(
+  params: StudySearchParams,
+  pageSize: number,
+  pageToken?: string
+): URLSearchParams {
+  const { condition, coordinates, radiusMiles, country, phases } = params;
+  const query = new URLSearchParams();
+
+  query.set('query.cond', condition);
+  query.set('filter.overallStatus', 'RECRUITING');
+
+  const terms = ['AREA[StudyType]INTERVENTIONAL'];
+  if (phases && phases.length > 0) {
+    terms.push(`AREA[Phase](${phases.map(toApiPhase).join(' OR ')})`);
+  }
+  query.set('query.term', terms.join(' AND '));
+
+  // The geo filter takes coordinates, not a zipcode
+  if (coordinates && radiusMiles) {
+    query.set('filter.geo', `distance(${coordinates.lat},${coordinates.lng},${radiusMiles}mi)`);
+  } else if (country) {
+    query.set('query.locn', country);
+  }
+
+  query.set('fields', STUDY_FIELDS.join(','));
+  query.set('pageSize', String(pageSize));
+  query.set('countTotal', 'true');
+
+  if (pageToken) {
+    query.set('pageToken', pageToken);
+  }
+
+  return query;
+}
+
+/**
+ * Slug used to name fixture files for a condition
+ */
+export function fixtureSlug(condition: string): string {
+  return condition
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// ============================================================================
+// Page Fetching
+// ============================================================================
+
+async function fetchLivePage(
+  client: ClinicalTrialsClient,
+  params: StudySearchParams,
+  pageSize: number,
+  pageToken?: string,
+  abortSignal?: AbortSignal
+): Promise<CTGovPage> {
+  const query = buildSearchQuery(params, pageSize, pageToken);
+
+  return callService('clinicaltrials', async (signal) => {
+    try {
+      const response = await fetch(`${client.baseUrl}/studies?${query.toString()}`, {
+        headers: {
+          Accept: 'application/json',
+        },
+        signal,
+      });
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw createServiceError('Rate limit exceeded. Please try again later.', response);
+        }
+        throw createServiceError(`ClinicalTrials.gov API error: ${response.statusText}`, response);
+      }
+
+      return response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error('ClinicalTrials.gov request timed out');
+      }
+      throw error;
+    }
+  }, abortSignal);
+}
+
+async function loadFixture(condition: string): Promise<ClinicalTrialsFixture> {
+  const path = `../fixtures/clinicaltrials/${fixtureSlug(condition)}.json`;
+  const loader = FIXTURE_LOADERS[path];
+
+  if (!loader) {
+    throw new Error(
+      `No recorded ClinicalTrials.gov fixture for "${condition}". ` +
+      'Record one with: node scripts/record-clinicaltrials-fixture.mjs "<condition>"'
+    );
+  }
+
+  return loader();
+}
+
+async function fetchFixturePage(
+  params: StudySearchParams,
+  pageToken?: string
+): Promise<CTGovPage> {
+  const fixture = await loadFixture(params.condition);
+
+  // Each recorded page is reached through the previous page's token
+  const index = pageToken
+    ? fixture.pages.findIndex((_, i) => i > 0 && fixture.pages[i - 1].nextPageToken === pageToken)
+    : 0;
+
+  if (index < 0 || !fixture.pages[index]) {
+    throw new Error(`Fixture for "${params.condition}" has no page for token ${pageToken}`);
+  }
+
+  return fixture.pages[index];
+}
+
+function fetchPage(
+  client: ClinicalTrialsClient,
+  params: StudySearchParams,
+  pageSize: number,
+  pageToken?: string,
+  signal?: AbortSignal
+): Promise<CTGovPage> {
+  if (client.mode === 'fixture') {
+    return fetchFixturePage(params, pageToken);
+  }
+  return fetchLivePage(client, params, pageSize, pageToken, signal);
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Search recruiting interventional studies, following nextPageToken until exhausted
+ */
+export async function searchStudies(
+  client: ClinicalTrialsClient,
+  params: StudySearchParams,
+  options: StudySearchOptions = {}
+): Promise<StudySearchResult> {
+  const { pageSize = DEFAULT_PAGE_SIZE, maxPages = DEFAULT_MAX_PAGES, signal } = options;
+
+  const studies: CTGovStudy[] = [];
+  let totalCount: number | undefined;
+  let pageToken: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const response = await fetchPage(client, params, pageSize, pageToken, signal);
+
+    for (const study of response.studies || []) {
+      cacheStudy(study);
+      studies.push(study);
+    }
+
+    // countTotal is only reported on the first page
+    if (totalCount === undefined && typeof response.totalCount === 'number') {
+      totalCount = response.totalCount;
+    }
+
+    pageToken = response.nextPageToken;
+    if (!pageToken) {
+      break;
+    }
+  }
+
+  if (pageToken) {
+    console.warn(`Stopped paging ClinicalTrials.gov after ${maxPages} pages`);
+  }
+
+  return {
+    studies,
+    totalCount: totalCount ?? studies.length,
+  };
+}
+
+// ============================================================================
+// Single Study Lookup
+// ============================================================================
+
+async function fetchLiveStudy(
+  client: ClinicalTrialsClient,
+  nctId: string,
+  abortSignal?: AbortSignal
+): Promise<CTGovStudy | null> {
+  const query = new URLSearchParams({ fields: STUDY_FIELDS.join(',') });
+
+  return callService('clinicaltrials', async (signal) => {
+    try {
+      const response = await fetch(`${client.baseUrl}/studies/${nctId}?${query.toString()}`, {
+        headers: {
+          Accept: 'application/json',
+        },
+        signal,
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          return null;
+        }
+        if (response.status === 429) {
+          throw createServiceError('Rate limit exceeded. Please try again later.', response);
+        }
+        throw createServiceError(`ClinicalTrials.gov API error: ${response.statusText}`, response);
+      }
+
+      return response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`ClinicalTrials.gov request timed out for ${nctId}`);
+      }
+      throw error;
+    }
+  }, abortSignal);
+}
+
+async function findFixtureStudy(nctId: string): Promise<CTGovStudy | null> {
+  for (const loader of Object.values(FIXTURE_LOADERS)) {
+    const fixture = await loader();
+    for (const page of fixture.pages) {
+      const study = page.studies.find(
+        (s) => s.protocolSection.identificationModule.nctId === nctId
+      );
+      if (study) {
+        return study;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch a single study record, or null if the registry has no record for it
+ */
+export async function fetchStudy(
+  client: ClinicalTrialsClient,
+  nctId: string,
+  signal?: AbortSignal
+): Promise<CTGovStudy | null> {
+  const cached = getCachedStudy(nctId);
+  if (cached) {
+    return cached;
+  }
+
+  const study = client.mode === 'fixture'
+    ? await findFixtureStudy(nctId)
+    : await fetchLiveStudy(client, nctId, signal);
+
+  if (study) {
+    cacheStudy(study);
+  }
+
+  return study;
+}
+
+/**
+ * Clear the study cache
+ */
+export function clearStudyCache(): void {
+  studyCache.clear();
+}
@@ -4,12 +4,44 @@ import { z } from 'zod';
 // Configuration Schema
 // ============================================================================
 
+/**
+ * Where ClinicalTrials.gov data comes from:
+ * live (network), mock (canned studies) or fixture (recorded responses on disk)
+ */
+export const ClinicalTrialsDataModeSchema = z.enum(['live', 'mock', 'fixture']);
+
+export type ClinicalTrialsDataMode = z.infer<typeof ClinicalTrialsDataModeSchema>;
+
+/**
+ * Which LLM backs the agents: proxy (the API server, which holds the keys),
+ * stub (canned responses from fixtures/llm, no network) or none (no model;
+ * the matcher uses its rules alone and the advocate its templates)
+ */
+export const LLMProviderNameSchema = z.enum(['proxy', 'stub', 'none']);
+
+export type LLMProviderName = z.infer<typeof LLMProviderNameSchema>;
+
+/**
+ * Where the pipeline runs: browser (in this tab) or server (as an API server
+ * job whose events are streamed back)
+ */
+export const PipelineRunnerSchema = z.enum(['browser', 'server']);
+
+export type PipelineRunner = z.infer<typeof PipelineRunnerSchema>;
+
+// Secret keys live on the API server (server/config.ts), never in this bundle
 const ConfigSchema = z.object({
-  VITE_TOOLHOUSE_API_KEY: z.string().default(''),
-  VITE_RTRVR_API_KEY: z.string().default(''),
-  VITE_ELEVENLABS_API_KEY: z.string().default(''),
+  VITE_API_BASE: z.string().default('/api'),
   VITE_STRIPE_PUBLISHABLE_KEY: z.string().default(''),
   VITE_CLINICALTRIALS_API_BASE: z.string().url().default('https://clinicaltrials.gov/api/v2'),
+  VITE_CLINICALTRIALS_DATA_MODE: ClinicalTrialsDataModeSchema.default('mock'),
+  // Off by default: proxy needs the API server running (npm run dev:server)
+  VITE_LLM_PROVIDER: LLMProviderNameSchema.default('none'),
+  VITE_PIPELINE_RUNNER: PipelineRunnerSchema.default('browser'),
+  // Tile URL template for the results map, e.g. /tiles/{z}/{x}/{y}.png for
+  // self-hosted tiles; without one the map is drawn with no base layer
+  VITE_MAP_TILE_URL: z.string().default(''),
+  VITE_MAP_TILE_ATTRIBUTION: z.string().default(''),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -20,6 +52,10 @@ export type Config = z.infer<typeof ConfigSchema>;
 
 let cachedConfig: Config | null = null;
 
+let dataModeOverride: ClinicalTrialsDataMode | null = null;
+
+let llmProviderOverride: LLMProviderName | null = null;
+
 // ============================================================================
 // Main Configuration Function
 // ============================================================================
@@ -32,11 +68,14 @@ export function getConfig(): Config {
   const env = import.meta.env;
 
   const result = ConfigSchema.safeParse({
-    VITE_TOOLHOUSE_API_KEY: env.VITE_TOOLHOUSE_API_KEY,
-    VITE_RTRVR_API_KEY: env.VITE_RTRVR_API_KEY,
-    VITE_ELEVENLABS_API_KEY: env.VITE_ELEVENLABS_API_KEY,
+    VITE_API_BASE: env.VITE_API_BASE,
     VITE_STRIPE_PUBLISHABLE_KEY: env.VITE_STRIPE_PUBLISHABLE_KEY,
     VITE_CLINICALTRIALS_API_BASE: env.VITE_CLINICALTRIALS_API_BASE,
+    VITE_CLINICALTRIALS_DATA_MODE: env.VITE_CLINICALTRIALS_DATA_MODE,
+    VITE_LLM_PROVIDER: env.VITE_LLM_PROVIDER,
+    VITE_PIPELINE_RUNNER: env.VITE_PIPELINE_RUNNER,
+    VITE_MAP_TILE_URL: env.VITE_MAP_TILE_URL,
+    VITE_MAP_TILE_ATTRIBUTION: env.VITE_MAP_TILE_ATTRIBUTION,
   });
 
   if (!result.success) {
@@ -57,16 +96,8 @@ export function getConfig(): Config {
 // Individual Getter Functions
 // ============================================================================
 
-export function getToolhouseApiKey(): string {
-  return getConfig().VITE_TOOLHOUSE_API_KEY;
-}
-
-export function getRtrvrApiKey(): string {
-  return getConfig().VITE_RTRVR_API_KEY;
-}
-
-export function getElevenLabsApiKey(): string {
-  return getConfig().VITE_ELEVENLABS_API_KEY;
+export function getApiBase(): string {
+  return getConfig().VITE_API_BASE;
 }
 
 export function getStripePublishableKey(): string {
@@ -77,6 +108,40 @@ export function getClinicalTrialsApiBase(): string {
   return getConfig().VITE_CLINICALTRIALS_API_BASE;
 }
 
+export function getClinicalTrialsDataMode(): ClinicalTrialsDataMode {
+  return dataModeOverride ?? getConfig().VITE_CLINICALTRIALS_DATA_MODE;
+}
+
+export function getLLMProviderName(): LLMProviderName {
+  return llmProviderOverride ?? getConfig().VITE_LLM_PROVIDER;
+}
+
+export function getPipelineRunner(): PipelineRunner {
+  return getConfig().VITE_PIPELINE_RUNNER;
+}
+
+export function getMapTileUrl(): string {
+  return getConfig().VITE_MAP_TILE_URL;
+}
+
+export function getMapTileAttribution(): string {
+  return getConfig().VITE_MAP_TILE_ATTRIBUTION;
+}
+
+/**
+ * Switch the ClinicalTrials.gov data mode at runtime (pass null to use the env value)
+ */
+export function setClinicalTrialsDataMode(mode: ClinicalTrialsDataMode | null): void {
+  dataModeOverride = mode;
+}
+
+/**
+ * Switch the LLM provider at runtime (pass null to use the env value)
+ */
+export function setLLMProviderName(name: LLMProviderName | null): void {
+  llmProviderOverride = name;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -105,4 +170,6 @@ export function validateConfig(): boolean {
  */
 export function resetConfigCache(): void {
   cachedConfig = null;
+  dataModeOverride = null;
+  llmProviderOverride = null;
 }
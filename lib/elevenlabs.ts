@@ -1,12 +1,13 @@
-import { getElevenLabsApiKey } from './config';
+import { getServiceEndpoint } from './api';
+import { callService, createServiceError } from './resilience';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface ElevenLabsClient {
-  apiKey: string;
   baseUrl: string;
+  headers: Record<string, string>;
 }
 
 export interface SpeechOptions {
@@ -14,6 +15,7 @@ export interface SpeechOptions {
   language?: 'en' | 'es' | 'zh' | 'fr' | 'de';
   stability?: number;
   similarityBoost?: number;
+  signal?: AbortSignal;
 }
 
 export interface AudioResult {
@@ -45,14 +47,10 @@ const MAX_TEXT_LENGTH = 5000;
 
 /**
  * Create an ElevenLabs client for text-to-speech
+ * Requests go through the API server, which adds the ElevenLabs key
  */
-export function createElevenLabsClient(apiKey?: string): ElevenLabsClient {
-  const key = apiKey || getElevenLabsApiKey();
-
-  return {
-    apiKey: key,
-    baseUrl: 'https://api.elevenlabs.io/v1',
-  };
+export function createElevenLabsClient(): ElevenLabsClient {
+  return getServiceEndpoint('elevenlabs');
 }
 
 // ============================================================================
@@ -120,6 +118,7 @@ export async function synthesizeSpeech(
     language = 'en',
     stability = 0.5,
     similarityBoost = 0.75,
+    signal,
   } = options;
 
   // Select voice based on language if not explicitly provided
@@ -129,7 +128,7 @@ export async function synthesizeSpeech(
   const chunks = splitTextIntoChunks(text);
 
   if (chunks.length === 1) {
-    return synthesizeChunk(client, chunks[0], selectedVoiceId, stability, similarityBoost);
+    return synthesizeChunk(client, chunks[0], selectedVoiceId, stability, similarityBoost, signal);
   }
 
   // For multiple chunks, synthesize and combine
@@ -142,7 +141,8 @@ export async function synthesizeSpeech(
       chunk,
       selectedVoiceId,
       stability,
-      similarityBoost
+      similarityBoost,
+      signal
     );
 
     const response = await fetch(result.audioUrl);
@@ -170,60 +170,65 @@ async function synthesizeChunk(
   text: string,
   voiceId: string,
   stability: number,
-  similarityBoost: number
+  similarityBoost: number,
+  abortSignal?: AbortSignal
 ): Promise<AudioResult> {
   const url = `${client.baseUrl}/text-to-speech/${voiceId}`;
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'xi-api-key': client.apiKey,
-      },
-      body: JSON.stringify({
-        text,
-        model_id: MODEL_ID,
-        voice_settings: {
-          stability,
-          similarity_boost: similarityBoost,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-
-      if (response.status === 401) {
-        throw new Error('Invalid ElevenLabs API key');
-      }
-      if (response.status === 429) {
-        throw new Error('ElevenLabs rate limit exceeded. Character quota may be depleted.');
-      }
-      if (response.status === 400) {
-        throw new Error('Text is too long or contains invalid characters');
+  return callService('elevenlabs', async (signal) => {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...client.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text,
+          model_id: MODEL_ID,
+          voice_settings: {
+            stability,
+            similarity_boost: similarityBoost,
+          },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+
+        if (response.status === 401 || response.status === 503) {
+          throw createServiceError('ElevenLabs is not configured on the API server', response);
+        }
+        if (response.status === 429) {
+          throw createServiceError(
+            'ElevenLabs rate limit exceeded. Character quota may be depleted.',
+            response
+          );
+        }
+        if (response.status === 400) {
+          throw createServiceError('Text is too long or contains invalid characters', response);
+        }
+
+        throw createServiceError(
+          `ElevenLabs API error: ${response.statusText} - ${JSON.stringify(errorData)}`,
+          response
+        );
       }
 
-      throw new Error(
-        `ElevenLabs API error: ${response.statusText} - ${JSON.stringify(errorData)}`
-      );
-    }
-
-    // Get audio blob and create URL
-    const audioBlob = await response.blob();
-    const audioUrl = URL.createObjectURL(audioBlob);
-
-    return {
-      audioUrl,
-      duration: estimateDuration(text),
-      format: 'mp3',
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
+      // Get audio blob and create URL
+      const audioBlob = await response.blob();
+      const audioUrl = URL.createObjectURL(audioBlob);
+
+      return {
+        audioUrl,
+        duration: estimateDuration(text),
+        format: 'mp3',
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('Failed to synthesize speech');
     }
-    throw new Error('Failed to synthesize speech');
-  }
+  }, abortSignal);
 }
 
 // ============================================================================
@@ -274,25 +279,25 @@ export async function synthesizeSpeechStream(
   const selectedVoiceId = voiceId || VOICE_MAP[language] || DEFAULT_VOICE_ID;
   const url = `${client.baseUrl}/text-to-speech/${selectedVoiceId}/stream`;
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'xi-api-key': client.apiKey,
-    },
-    body: JSON.stringify({
-      text,
-      model_id: MODEL_ID,
-      voice_settings: {
-        stability,
-        similarity_boost: similarityBoost,
-      },
-    }),
-  });
+  // The stream is read after this returns, so the try timeout is not applied
+  return callService('elevenlabs', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...client.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text,
+        model_id: MODEL_ID,
+        voice_settings: {
+          stability,
+          similarity_boost: similarityBoost,
+        },
+      }),
+    });
 
-  if (!response.ok) {
-    throw new Error(`Stream synthesis failed: ${response.statusText}`);
-  }
+    if (!response.ok) {
+      throw createServiceError(`Stream synthesis failed: ${response.statusText}`, response);
+    }
 
-  return response.body;
+    return response.body;
+  });
 }
@@ -0,0 +1,589 @@
+import { parseBiomarkers } from './biomarkers';
+import { resolveTreatmentText } from './treatments';
+import { CancerStageSchema } from './schemas';
+import type {
+  CancerStage,
+  Comparator,
+  CriteriaCategory,
+  Criterion,
+  CriterionConstraint,
+  LabAnalyte,
+  LabConstraint,
+  WashoutConstraint,
+} from './schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedEligibility {
+  inclusionCriteria: Criterion[];
+  exclusionCriteria: Criterion[];
+}
+
+interface CategoryRule {
+  category: CriteriaCategory;
+  pattern: RegExp;
+}
+
+// ============================================================================
+// Classification Rules
+// ============================================================================
+
+// Checked in order; the first matching rule wins. Treatment history comes first
+// so "Prior EGFR TKI" is a treatment criterion rather than a biomarker one.
+const CATEGORY_RULES: CategoryRule[] = [
+  {
+    category: 'treatment',
+    // "Within 7 days prior to first dose" is timing, not treatment history
+    pattern: /\b(prior(?!\s+to\b)|previous(ly)?|received|receiving|pre-?treated|treatment with|therapy with|lines? of (systemic )?therapy|washout|surgery|radiotherapy|radiation therapy)\b/i,
+  },
+  {
+    category: 'biomarker',
+    pattern: /\b(egfr|alk|ros1|kras|braf|ret|c-?met|met ex(on)?\s?14|ntrk|her2|erbb2|pd-?l1|brca[12]?|msi(-h)?|tmb|t790m|l858r|ex(on)?\s?19|mutation|mutated|mutant|amplification|fusion|rearrangement|genomic alteration|expression|tps)\b/i,
+  },
+  {
+    category: 'demographics',
+    pattern: /\b(age[ds]?|years? old|male|female|men|women|sex|gender|pregnan(t|cy)|breastfeeding|lactating|childbearing|contracepti(on|ve))\b/i,
+  },
+  {
+    category: 'diagnosis',
+    pattern: /\b(cancer|carcinoma|nsclc|sclc|tumou?r|neoplasm|malignan(t|cy)|lymphoma|leukemia|myeloma|melanoma|sarcoma|histolog(ic|ically|y)|cytolog(ic|ically|y)|stage|metasta(sis|ses|tic)|advanced|unresectable|relapsed|refractory|cns involvement)\b/i,
+  },
+];
+
+// ============================================================================
+// Constraint Patterns
+// ============================================================================
+
+// Longer phrases first so "less than or equal to" wins over "less than"
+const COMPARATOR_PATTERNS: Array<[RegExp, Comparator]> = [
+  [/^(≤|<=|=<|less than or equal to|no (?:more|greater) than|at most|up to)/i, '<='],
+  [/^(≥|>=|=>|greater than or equal to|no less than|at least|minimum of)/i, '>='],
+  [/^(<|less than|below|under)/i, '<'],
+  [/^(>|greater than|more than|above|over)/i, '>'],
+  [/^(=|of|equal to)/i, '='],
+];
+
+const COMPARATOR_SOURCE =
+  '≤|<=|=<|≥|>=|=>|<|>|=|less than or equal to|greater than or equal to|' +
+  'no (?:more|greater) than|no less than|at most|at least|up to|minimum of|' +
+  'less than|greater than|more than|below|under|above|over';
+
+const LAB_PATTERNS: Array<[LabAnalyte, RegExp]> = [
+  ['anc', /absolute neutrophil count|\banc\b|neutrophils?/i],
+  ['platelets', /platelets?(?: count)?|\bplt\b/i],
+  ['hemoglobin', /ha?emoglobin|\bhgb\b|\bhb\b/i],
+  ['creatinine_clearance', /creatinine clearance|\bcrcl\b/i],
+  ['creatinine', /serum creatinine/i],
+  ['bilirubin', /(?:total )?bilirubin/i],
+  ['ast', /\bast\b|aspartate aminotransferase/i],
+  ['alt', /\balt\b|alanine aminotransferase/i],
+];
+
+const LAB_VALUE = new RegExp(
+  `(${COMPARATOR_SOURCE})\\s*(\\d[\\d,]*(?:\\.\\d+)?)\\s*(x\\s*10\\^?\\d+\\s*/\\s*l|x\\s*uln|×\\s*uln|/\\s*[µu]l|/\\s*mm3|g/dl|mg/dl|ml/min|µmol/l|%)?`,
+  'i'
+);
+
+// "Chemotherapy within 14 days": what comes before the window is what it applies to
+const WITHIN_WINDOW = /^(.*?)\bwithin (\d+) (days?|weeks?|months?)\b/i;
+
+// Words that make a window about therapy rather than, say, a pregnancy test
+const THERAPY_TERMS = /\b(therap(y|ies)|treatments?|chemo(therapy)?|radiotherapy|radiation|surgery|surgical|agents?|drugs?|medications?|investigational|inhibitors?|antibod(y|ies)|vaccines?|transplant(ation)?|transfusions?)\b/i;
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+const STAGE_ORDER: readonly CancerStage[] = CancerStageSchema.options;
+
+const STAGE_TOKEN = '(?:IV|I{1,3})[A-C]?';
+
+// "Stage IIIB or IV", "stage III-IV", "Stage IIIB/IIIC/IV"
+const STAGE_LIST = new RegExp(
+  `\\bstages?\\s+(${STAGE_TOKEN}(?:\\s*(?:,\\s*(?:or|and)?|\\/|-|–|or|and|to|through)\\s*(?:stage\\s+)?${STAGE_TOKEN})*)\\b`,
+  'gi'
+);
+
+// Wording that implies a stage group when no stage is named
+const STAGE_DESCRIPTORS: Array<[RegExp, CancerStage[]]> = [
+  [/\blocally advanced\b/i, ['III']],
+  [/\b(metastatic|stage 4)\b/i, ['IV']],
+  [/\b(advanced|unresectable|inoperable)\b/i, ['III', 'IV']],
+];
+
+// ============================================================================
+// Text Splitting
+// ============================================================================
+
+const INCLUSION_HEADING = /^(?:key\s+)?inclusion criteria\b[^:]*:?$/i;
+const EXCLUSION_HEADING = /^(?:key\s+)?exclusion criteria\b[^:]*:?$/i;
+const BULLET_PREFIX = /^(?:[*\-•]|\d+[.)])\s*/;
+
+/**
+ * Split raw eligibility text into inclusion and exclusion bullets
+ * Lines before any heading are treated as inclusion criteria
+ */
+export function splitEligibilityText(text: string): { inclusion: string[]; exclusion: string[] } {
+  const inclusion: string[] = [];
+  const exclusion: string[] = [];
+  let current = inclusion;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (INCLUSION_HEADING.test(line)) {
+      current = inclusion;
+      continue;
+    }
+    if (EXCLUSION_HEADING.test(line)) {
+      current = exclusion;
+      continue;
+    }
+
+    const isBullet = BULLET_PREFIX.test(line);
+    const bullet = line.replace(BULLET_PREFIX, '');
+
+    // Wrapped continuation lines belong to the previous bullet
+    if (!isBullet && current.length > 0 && /^[a-z(]/.test(bullet)) {
+      current[current.length - 1] += ` ${bullet}`;
+      continue;
+    }
+
+    if (bullet) {
+      current.push(bullet);
+    }
+  }
+
+  return { inclusion, exclusion };
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Whether text names a therapy, by a drug or class we know or by generic wording
+ */
+function namesTherapy(text: string): boolean {
+  const { drugClasses, drugs } = resolveTreatmentText(text);
+  return drugClasses.length > 0 || drugs.length > 0 || THERAPY_TERMS.test(text);
+}
+
+/**
+ * Classify a single criterion into a CriteriaCategory
+ */
+export function classifyCriterion(text: string): CriteriaCategory {
+  // A time window is about treatment only when it names a therapy
+  const within = text.match(WITHIN_WINDOW);
+  if (within && namesTherapy(within[1])) {
+    return 'treatment';
+  }
+
+  const rule = CATEGORY_RULES.find((r) => r.pattern.test(text));
+  return rule ? rule.category : 'other';
+}
+
+// ============================================================================
+// Constraint Extraction
+// ============================================================================
+
+function toComparator(phrase: string): Comparator {
+  const match = COMPARATOR_PATTERNS.find(([pattern]) => pattern.test(phrase.trim()));
+  return match ? match[1] : '=';
+}
+
+function toDays(value: string, unit: string): number {
+  const unitKey = unit.toLowerCase().replace(/s$/, '');
+  return parseInt(value, 10) * (DAYS_PER_UNIT[unitKey] ?? 1);
+}
+
+// Joins the values of "0-2", "70 to 100" and "0, 1, or 2"
+const SCORE_LIST_SEPARATOR = '\\s*%?\\s*(?:-|–|to|,\\s*(?:or|and)?|or|and)\\s*';
+
+/**
+ * ECOG / Karnofsky ranges such as "ECOG 0-1", "ECOG 0, 1 or 2", "ECOG ≤ 2"
+ * or "Karnofsky ≥ 70"
+ */
+function extractPerformanceStatus(text: string): CriterionConstraint[] {
+  const constraints: CriterionConstraint[] = [];
+  const scales: Array<['ecog' | 'karnofsky', RegExp]> = [
+    ['ecog', /\b(ecog|zubrod|who performance status)\b/i],
+    ['karnofsky', /\b(karnofsky|kps)\b/i],
+  ];
+
+  for (const [scale, pattern] of scales) {
+    const keyword = text.match(pattern);
+    if (!keyword || keyword.index === undefined) continue;
+
+    const tail = text.slice(keyword.index + keyword[0].length);
+    const comparison = tail.match(new RegExp(`(${COMPARATOR_SOURCE})\\s*(\\d{1,3})`, 'i'));
+    const list = tail.match(new RegExp(`\\d{1,3}(?:${SCORE_LIST_SEPARATOR}\\d{1,3})+`, 'i'));
+    const orLess = tail.match(/(\d{1,3})\s*%?\s*or (less|lower|below|better)/i);
+    const orMore = tail.match(/(\d{1,3})\s*%?\s*or (more|greater|higher|above)/i);
+    const single = tail.match(/(\d{1,3})/);
+
+    if (list && (!comparison || list.index! <= comparison.index!)) {
+      // A range lists its bounds; an enumeration lists every allowed score
+      const values = (list[0].match(/\d{1,3}/g) ?? []).map((value) => parseInt(value, 10));
+      constraints.push({
+        type: 'performance_status',
+        scale,
+        min: Math.min(...values),
+        max: Math.max(...values),
+      });
+    } else if (comparison && toComparator(comparison[1]) !== '=') {
+      const value = parseInt(comparison[2], 10);
+      const comparator = toComparator(comparison[1]);
+      constraints.push({
+        type: 'performance_status',
+        scale,
+        ...(comparator.startsWith('<')
+          ? { max: comparator === '<' ? value - 1 : value }
+          : { min: comparator === '>' ? value + 1 : value }),
+      });
+    } else if (orLess) {
+      constraints.push({ type: 'performance_status', scale, max: parseInt(orLess[1], 10) });
+    } else if (orMore) {
+      constraints.push({ type: 'performance_status', scale, min: parseInt(orMore[1], 10) });
+    } else if (single) {
+      // A lone ECOG value is an upper bound; a lone Karnofsky value is a lower bound
+      const value = parseInt(single[1], 10);
+      constraints.push(
+        scale === 'ecog'
+          ? { type: 'performance_status', scale, max: value }
+          : { type: 'performance_status', scale, min: value }
+      );
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Lab thresholds such as "ANC ≥ 1.5 x 10^9/L" or "creatinine clearance ≥ 45 mL/min"
+ */
+function extractLabs(text: string): LabConstraint[] {
+  const mentions = LAB_PATTERNS
+    .map(([analyte, pattern]) => {
+      const match = text.match(pattern);
+      return match && match.index !== undefined ? { analyte, index: match.index, length: match[0].length } : null;
+    })
+    .filter((m): m is { analyte: LabAnalyte; index: number; length: number } => m !== null)
+    .sort((a, b) => a.index - b.index);
+
+  const constraints: LabConstraint[] = [];
+
+  // Only look at text up to the next analyte so values are not attributed twice
+  const segments = mentions.map((mention, i) =>
+    text.slice(mention.index + mention.length, mentions[i + 1]?.index ?? text.length)
+  );
+
+  mentions.forEach((mention, i) => {
+    // "AST and ALT ≤ 2.5 x ULN" - a bare conjunction shares the next analyte's value
+    let j = i;
+    while (j < segments.length - 1 && /^\s*(and|or|\/|,)\s*$/i.test(segments[j])) {
+      j++;
+    }
+    const value = segments[j].match(LAB_VALUE);
+    if (!value) return;
+
+    constraints.push({
+      type: 'lab',
+      analyte: mention.analyte,
+      comparator: toComparator(value[1]),
+      value: parseFloat(value[2].replace(/,/g, '')),
+      unit: (value[3] || '').replace(/\s+/g, ' ').trim(),
+    });
+  });
+
+  return constraints;
+}
+
+/**
+ * A washout constraint, or none for a window of zero days ("within 0 days")
+ */
+function washoutOf(
+  days: number,
+  appliesTo: string,
+  window: WashoutConstraint['window']
+): CriterionConstraint[] {
+  return days > 0 ? [{ type: 'washout', days, appliesTo, window }] : [];
+}
+
+/**
+ * Washout windows such as "Prior EGFR TKI within 14 days" or "at least 4 weeks since chemotherapy"
+ * Only windows that name a therapy, or a washout, count: "Negative pregnancy
+ * test within 7 days" has none.
+ */
+function extractWashout(text: string): CriterionConstraint[] {
+  const within = text.match(WITHIN_WINDOW);
+  if (within && namesTherapy(within[1])) {
+    return washoutOf(
+      toDays(within[2], within[3]),
+      within[1]
+        .replace(/^(prior|previous|received|receiving|treatment with|therapy with)\s+/i, '')
+        .trim(),
+      'within'
+    );
+  }
+
+  const since = text.match(/\bat least (\d+) (days?|weeks?|months?) (?:since|from|after) (?:the )?(?:last dose of |prior |previous )?(.+)$/i);
+  if (since && namesTherapy(since[3])) {
+    return washoutOf(toDays(since[1], since[2]), since[3].trim(), 'since');
+  }
+
+  const washout = text.match(/\bwashout(?: period)? of (\d+) (days?|weeks?|months?)/i);
+  if (washout) {
+    return washoutOf(toDays(washout[1], washout[2]), '', 'since');
+  }
+
+  return [];
+}
+
+/**
+ * Prior lines of therapy such as "at least 2 prior lines" or "no prior systemic therapy"
+ */
+function extractPriorLines(text: string): CriterionConstraint[] {
+  const range = text.match(/(\d+)\s*(?:-|–|to)\s*(\d+) (?:prior )?(?:lines?|regimens?)/i);
+  if (range) {
+    return [{ type: 'prior_lines', min: parseInt(range[1], 10), max: parseInt(range[2], 10) }];
+  }
+
+  const atLeast = text.match(/\b(?:at least|minimum of|≥|>=)\s*(\d+) (?:prior |previous )?(?:lines?|regimens?)/i);
+  if (atLeast) {
+    return [{ type: 'prior_lines', min: parseInt(atLeast[1], 10) }];
+  }
+
+  const atMost = text.match(/\b(?:no more than|at most|up to|≤|<=)\s*(\d+) (?:prior |previous )?(?:lines?|regimens?)/i);
+  if (atMost) {
+    return [{ type: 'prior_lines', max: parseInt(atMost[1], 10) }];
+  }
+
+  if (/\b(no prior systemic (?:anti-?cancer )?therapy|treatment[- ]na[iï]ve)\b/i.test(text)) {
+    return [{ type: 'prior_lines', max: 0 }];
+  }
+
+  return [];
+}
+
+/**
+ * Age limits such as "Age ≥ 18 years", "aged 18-75 years" or "18 years of age or older"
+ */
+function extractAge(text: string): CriterionConstraint[] {
+  if (!/\b(age[ds]?|years? old|years? of age)\b/i.test(text)) {
+    return [];
+  }
+
+  const range = text.match(/(\d{1,3})\s*(?:-|–|to|and)\s*(\d{1,3})\s*years/i);
+  if (range) {
+    return [{ type: 'age', min: parseInt(range[1], 10), max: parseInt(range[2], 10) }];
+  }
+
+  const comparison = text.match(
+    new RegExp(`(${COMPARATOR_SOURCE})\\s*(\\d{1,3})\\b(?!\\s*(?:%|hours?|days?|weeks?|months?))`, 'i')
+  );
+  if (comparison && toComparator(comparison[1]) !== '=') {
+    const value = parseInt(comparison[2], 10);
+    const comparator = toComparator(comparison[1]);
+    return [{
+      type: 'age',
+      ...(comparator.startsWith('<')
+        ? { max: comparator === '<' ? value - 1 : value }
+        : { min: comparator === '>' ? value + 1 : value }),
+    }];
+  }
+
+  const orOlder = text.match(/(\d{1,3})\s*years?(?: of age| old)?,?\s*(?:or|and) (?:older|over|above)/i);
+  if (orOlder) {
+    return [{ type: 'age', min: parseInt(orOlder[1], 10) }];
+  }
+
+  const orYounger = text.match(/(\d{1,3})\s*years?(?: of age| old)?,?\s*(?:or|and) (?:younger|under|below)/i);
+  if (orYounger) {
+    return [{ type: 'age', max: parseInt(orYounger[1], 10) }];
+  }
+
+  return [];
+}
+
+function stageGroup(stage: CancerStage): CancerStage {
+  return stage.replace(/[A-C]$/, '') as CancerStage;
+}
+
+/**
+ * A stage token as a CancerStage; sub-stages the schema does not list
+ * ("IVC", "IIC") fall back to their stage group
+ */
+function toCancerStage(token: string): CancerStage | null {
+  const options: readonly string[] = STAGE_ORDER;
+  if (options.includes(token)) {
+    return token as CancerStage;
+  }
+  const group = token.replace(/[A-C]$/, '');
+  return options.includes(group) ? (group as CancerStage) : null;
+}
+
+/**
+ * Expand "IIIB-IV" into the stages between, keeping the coarsest form of each
+ */
+function expandStageRange(from: CancerStage, to: CancerStage): CancerStage[] {
+  const [low, high] = STAGE_ORDER.indexOf(from) <= STAGE_ORDER.indexOf(to) ? [from, to] : [to, from];
+  const between = STAGE_ORDER.slice(STAGE_ORDER.indexOf(low), STAGE_ORDER.indexOf(high) + 1)
+    // "I-IIIA" stops partway through stage III, so the whole group is not included
+    .filter((stage) => stage === high || stage !== stageGroup(high));
+
+  return between.filter((stage) => stage === stageGroup(stage) || !between.includes(stageGroup(stage)));
+}
+
+/**
+ * Stage requirements such as "Stage IIIB or IV" or "advanced or metastatic NSCLC"
+ */
+function extractStage(text: string): CriterionConstraint[] {
+  const explicit: CancerStage[] = [];
+
+  // "Locally advanced (Stage IIIB or IIIC) or metastatic (Stage IV)" names stages twice
+  for (const list of text.matchAll(STAGE_LIST)) {
+    const parts = list[1].toUpperCase().split(/\s*(,\s*(?:OR|AND)?|\/|OR|AND|-|–|TO|THROUGH)\s*(?:STAGE\s+)?/);
+
+    for (let i = 0; i < parts.length; i += 2) {
+      const stage = toCancerStage(parts[i]);
+      if (!stage) continue;
+      const separator = parts[i - 1];
+      const previous = explicit[explicit.length - 1];
+
+      if (previous && separator && /^(-|–|TO|THROUGH)$/.test(separator)) {
+        explicit.pop();
+        explicit.push(...expandStageRange(previous, stage));
+      } else {
+        explicit.push(stage);
+      }
+    }
+  }
+
+  if (explicit.length > 0) {
+    return [{ type: 'stage', stages: Array.from(new Set(explicit)), source: 'explicit' }];
+  }
+
+  // "Prior therapy for advanced NSCLC" describes treatment history, not the current stage
+  if (classifyCriterion(text) === 'treatment') {
+    return [];
+  }
+
+  const stages = STAGE_DESCRIPTORS
+    .filter(([pattern]) => pattern.test(text))
+    .flatMap(([, implied]) => implied);
+
+  // "locally advanced" also matches the bare "advanced" descriptor; keep the narrower reading
+  const narrowed = /\blocally advanced\b/i.test(text) && !/\bmetastatic\b/i.test(text)
+    ? stages.filter((stage) => stage === 'III')
+    : stages;
+
+  if (narrowed.length === 0) {
+    return [];
+  }
+
+  return [{
+    type: 'stage',
+    stages: STAGE_ORDER.filter((stage) => narrowed.includes(stage)),
+    source: 'descriptor',
+  }];
+}
+
+/**
+ * Biomarker requirements resolved through the synonym tables in lib/biomarkers.ts
+ */
+function extractBiomarkers(text: string): CriterionConstraint[] {
+  // "No prior EGFR TKI therapy" is about treatment history
+  if (classifyCriterion(text) === 'treatment') {
+    return [];
+  }
+
+  return parseBiomarkers(text).map((biomarker) => ({ type: 'biomarker', ...biomarker }));
+}
+
+/**
+ * Drugs and drug classes in treatment criteria such as "Prior therapy with an anti-PD-1 agent"
+ */
+function extractPriorTreatment(text: string): CriterionConstraint[] {
+  if (classifyCriterion(text) !== 'treatment') {
+    return [];
+  }
+
+  const { drugClasses, drugs } = resolveTreatmentText(text);
+  if (drugClasses.length === 0 && drugs.length === 0) {
+    return [];
+  }
+
+  return [{
+    type: 'prior_treatment',
+    drugClasses,
+    drugs,
+    negated: /\b(no|not|never|without)\b|\bna[iï]ve\b/i.test(text),
+  }];
+}
+
+/**
+ * Extract typed numeric constraints from a single criterion
+ */
+export function extractConstraints(text: string): CriterionConstraint[] {
+  return [
+    ...extractPerformanceStatus(text),
+    ...extractLabs(text),
+    ...extractWashout(text),
+    ...extractPriorLines(text),
+    ...extractAge(text),
+    ...extractStage(text),
+    ...extractBiomarkers(text),
+    ...extractPriorTreatment(text),
+  ];
+}
+
+/**
+ * Attach extracted constraints to criteria that do not have any yet
+ */
+export function withConstraints(criteria: Criterion[]): Criterion[] {
+  return criteria.map((c) => {
+    if (c.constraints) return c;
+    const constraints = extractConstraints(c.criterion);
+    return constraints.length > 0 ? { ...c, constraints } : c;
+  });
+}
+
+// ============================================================================
+// Main Parse Function
+// ============================================================================
+
+/**
+ * Parse raw eligibility text into classified inclusion/exclusion criteria
+ * Fully deterministic - no rtrvr.ai or LLM calls
+ */
+export function parseEligibilityText(text: string): ParsedEligibility {
+  const { inclusion, exclusion } = splitEligibilityText(text);
+
+  const toCriterion = (criterion: string): Criterion => ({
+    criterion,
+    category: classifyCriterion(criterion),
+  });
+
+  return {
+    inclusionCriteria: withConstraints(inclusion.map(toCriterion)),
+    exclusionCriteria: withConstraints(exclusion.map(toCriterion)),
+  };
+}
+
+/**
+ * Compare categories assigned by another extractor (rtrvr.ai, LLM) with the rule baseline
+ * Returns the criteria whose category differs
+ */
+export function compareWithBaseline(
+  criteria: Criterion[]
+): Array<{ criterion: string; category: CriteriaCategory; baseline: CriteriaCategory }> {
+  return criteria
+    .map((c) => ({ ...c, baseline: classifyCriterion(c.criterion) }))
+    .filter((c) => c.category !== c.baseline);
+}
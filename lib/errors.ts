@@ -0,0 +1,84 @@
+import { ZodError } from 'zod';
+import type { ServiceError } from './resilience';
+import type { PipelineError, PipelineErrorKind, PipelineStep } from './schemas';
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+// Clients throw plain Errors, so most kinds are recognised by their messages
+const MESSAGE_PATTERNS: Array<[PipelineErrorKind, RegExp]> = [
+  ['unavailable', /temporarily unavailable|not configured/i],
+  ['rate_limit', /rate limit|\b429\b/i],
+  ['timeout', /timed out|timeout/i],
+  ['not_found', /not found|\b404\b/i],
+  ['validation', /validation_failed|invalid/i],
+  ['parse', /no_structured_output|not valid JSON|unexpected token|parse/i],
+  ['network', /failed to fetch|fetch failed|network/i],
+];
+
+// Retrying these gives the same answer
+const PERMANENT_KINDS: PipelineErrorKind[] = ['not_found', 'parse', 'validation', 'unavailable'];
+
+// HTTP statuses that say what went wrong, whatever the message
+const STATUS_KINDS: Record<number, PipelineErrorKind> = {
+  400: 'validation',
+  401: 'unavailable',
+  403: 'unavailable',
+  404: 'not_found',
+  408: 'timeout',
+  422: 'validation',
+  429: 'rate_limit',
+  504: 'timeout',
+};
+
+/**
+ * Work out what kind of failure an error represents
+ */
+export function classifyError(error: unknown): PipelineErrorKind {
+  if (error instanceof ZodError) return 'validation';
+  if (error instanceof SyntaxError) return 'parse';
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return 'timeout';
+  }
+
+  const status = (error as ServiceError | undefined)?.status;
+  if (status !== undefined && STATUS_KINDS[status]) {
+    return STATUS_KINDS[status];
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = MESSAGE_PATTERNS.find(([, pattern]) => pattern.test(message));
+  return match ? match[0] : 'unknown';
+}
+
+/**
+ * Whether trying the same request again could succeed
+ */
+export function isRetryableError(error: unknown): boolean {
+  return !PERMANENT_KINDS.includes(classifyError(error));
+}
+
+/**
+ * Whether callService tried the request more than once before it failed
+ */
+function wasRetried(error: unknown): boolean {
+  return ((error as ServiceError | undefined)?.attempts ?? 1) > 1;
+}
+
+/**
+ * Record a failure for PipelineResult.errors
+ */
+export function toPipelineError(
+  stage: PipelineStep['id'],
+  error: unknown,
+  nctId?: string
+): PipelineError {
+  return {
+    stage,
+    ...(nctId && { nctId }),
+    kind: classifyError(error),
+    message: error instanceof Error ? error.message : String(error),
+    retried: wasRetried(error),
+  };
+}
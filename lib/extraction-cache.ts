@@ -0,0 +1,169 @@
+import { EXTRACTION_STORE, getObjectStore, promisify } from './idb';
+import { CachedExtractionSchema } from './schemas';
+import type { CachedExtraction, TrialExtraction } from './schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Holds the latest extraction for each trial, keyed by NCT ID
+ */
+export interface ExtractionCacheStore {
+  get(nctId: string): Promise<CachedExtraction | null>;
+  set(entry: CachedExtraction): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ExtractionCacheStats {
+  hits: number;
+  misses: number;
+  // Misses where the trial had been extracted from an older study record
+  stale: number;
+}
+
+// ============================================================================
+// IndexedDB Store
+// ============================================================================
+
+/**
+ * Keep extractions in IndexedDB, so they survive a reload
+ */
+export function createIndexedDBExtractionCacheStore(): ExtractionCacheStore {
+  return {
+    async get(nctId) {
+      const store = await getObjectStore(EXTRACTION_STORE, 'readonly');
+      const parsed = CachedExtractionSchema.safeParse(await promisify(store.get(nctId)));
+      return parsed.success ? parsed.data : null;
+    },
+
+    async set(entry) {
+      const store = await getObjectStore(EXTRACTION_STORE, 'readwrite');
+      await promisify(store.put(entry));
+    },
+
+    async clear() {
+      const store = await getObjectStore(EXTRACTION_STORE, 'readwrite');
+      await promisify(store.clear());
+    },
+  };
+}
+
+// ============================================================================
+// Memory Store
+// ============================================================================
+
+/**
+ * Keep extractions in memory, for environments without IndexedDB
+ */
+export function createMemoryExtractionCacheStore(): ExtractionCacheStore {
+  const entries = new Map<string, CachedExtraction>();
+
+  return {
+    async get(nctId) {
+      return entries.get(nctId) ?? null;
+    },
+    async set(entry) {
+      entries.set(entry.nctId, entry);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+export function createExtractionCacheStore(): ExtractionCacheStore {
+  return typeof indexedDB === 'undefined'
+    ? createMemoryExtractionCacheStore()
+    : createIndexedDBExtractionCacheStore();
+}
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+let storeOverride: ExtractionCacheStore | null = null;
+let defaultStore: ExtractionCacheStore | null = null;
+
+/**
+ * Use this store instead of the default (the API server keeps its cache on disk)
+ */
+export function setExtractionCacheStore(store: ExtractionCacheStore | null): void {
+  storeOverride = store;
+}
+
+function getStore(): ExtractionCacheStore {
+  if (storeOverride) {
+    return storeOverride;
+  }
+  defaultStore ??= createExtractionCacheStore();
+  return defaultStore;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+const stats: ExtractionCacheStats = { hits: 0, misses: 0, stale: 0 };
+
+/**
+ * The cached extraction for a trial, if it was made from this version of the
+ * study record
+ * A cache that cannot be read counts as a miss rather than failing extraction.
+ */
+export async function getCachedExtraction(
+  nctId: string,
+  version: string
+): Promise<TrialExtraction | null> {
+  let entry: CachedExtraction | null = null;
+  try {
+    entry = await getStore().get(nctId);
+  } catch (error) {
+    console.warn(`Could not read cached extraction for ${nctId}:`, error);
+  }
+
+  if (entry?.version === version) {
+    stats.hits++;
+    return entry.extraction;
+  }
+
+  stats.misses++;
+  if (entry) {
+    stats.stale++;
+  }
+  return null;
+}
+
+/**
+ * Store an extraction, replacing any made from an earlier study version
+ */
+export async function cacheExtraction(
+  nctId: string,
+  version: string,
+  extraction: TrialExtraction
+): Promise<void> {
+  try {
+    await getStore().set({
+      nctId,
+      version,
+      extraction,
+      extractedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.warn(`Could not cache extraction for ${nctId}:`, error);
+  }
+}
+
+export function getExtractionCacheStats(): ExtractionCacheStats {
+  return { ...stats };
+}
+
+/**
+ * Empty the cache and reset its stats
+ */
+export async function clearExtractionCache(): Promise<void> {
+  await getStore().clear();
+  stats.hits = 0;
+  stats.misses = 0;
+  stats.stale = 0;
+}
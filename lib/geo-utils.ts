@@ -1,81 +1,159 @@
+import type { ZipCodeInfo } from 'zipcodes';
+import { DEFAULT_COUNTRY } from './schemas';
+import type { Coordinates, Location } from './schemas';
+
 // ============================================================================
 // Types
 // ============================================================================
 
-export interface Coordinates {
-  lat: number;
-  lng: number;
-}
-
-export interface Location {
-  facility: string;
-  city: string;
-  state: string;
+/**
+ * Where distances are measured from: coordinates when known, otherwise the
+ * place the postal code stands for
+ */
+export interface Origin {
+  country: string;
   zipcode: string;
-  distance?: number;
+  coordinates?: Coordinates;
 }
 
 // ============================================================================
-// US Zipcode Database (subset of common zipcodes)
-// In production, use a complete database or API service
+// US Zipcode Database
 // ============================================================================
 
-const ZIPCODE_DATA: Record<string, Coordinates> = {
-  // Major cities - Northeast
-  '10001': { lat: 40.7484, lng: -73.9967 }, // New York, NY
-  '10019': { lat: 40.7654, lng: -73.9856 }, // New York, NY
-  '02101': { lat: 42.3704, lng: -71.0266 }, // Boston, MA
-  '02115': { lat: 42.3420, lng: -71.0944 }, // Boston, MA
-  '19102': { lat: 39.9526, lng: -75.1680 }, // Philadelphia, PA
-  '20001': { lat: 38.9120, lng: -77.0160 }, // Washington, DC
-  '21201': { lat: 39.2908, lng: -76.6209 }, // Baltimore, MD
-
-  // Major cities - Southeast
-  '30301': { lat: 33.7490, lng: -84.3880 }, // Atlanta, GA
-  '30303': { lat: 33.7537, lng: -84.3930 }, // Atlanta, GA
-  '33101': { lat: 25.7617, lng: -80.1918 }, // Miami, FL
-  '33130': { lat: 25.7656, lng: -80.2052 }, // Miami, FL
-  '28201': { lat: 35.2271, lng: -80.8431 }, // Charlotte, NC
-  '37201': { lat: 36.1627, lng: -86.7816 }, // Nashville, TN
-
-  // Major cities - Midwest
-  '60601': { lat: 41.8819, lng: -87.6278 }, // Chicago, IL
-  '60611': { lat: 41.8930, lng: -87.6166 }, // Chicago, IL
-  '48201': { lat: 42.3314, lng: -83.0458 }, // Detroit, MI
-  '44101': { lat: 41.4993, lng: -81.6944 }, // Cleveland, OH
-  '55401': { lat: 44.9833, lng: -93.2667 }, // Minneapolis, MN
-  '63101': { lat: 38.6270, lng: -90.1994 }, // St. Louis, MO
-
-  // Major cities - Southwest
-  '75201': { lat: 32.7876, lng: -96.7985 }, // Dallas, TX
-  '77001': { lat: 29.7604, lng: -95.3698 }, // Houston, TX
-  '77030': { lat: 29.7105, lng: -95.3965 }, // Houston, TX (Medical Center)
-  '85001': { lat: 33.4484, lng: -112.0740 }, // Phoenix, AZ
-  '87101': { lat: 35.0844, lng: -106.6504 }, // Albuquerque, NM
-  '73101': { lat: 35.4676, lng: -97.5164 }, // Oklahoma City, OK
-
-  // Major cities - West Coast
-  '90001': { lat: 33.9425, lng: -118.2551 }, // Los Angeles, CA
-  '90024': { lat: 34.0633, lng: -118.4333 }, // Los Angeles, CA (Westwood)
-  '94102': { lat: 37.7792, lng: -122.4191 }, // San Francisco, CA
-  '94143': { lat: 37.7631, lng: -122.4586 }, // San Francisco, CA (UCSF)
-  '92101': { lat: 32.7195, lng: -117.1628 }, // San Diego, CA
-  '98101': { lat: 47.6062, lng: -122.3321 }, // Seattle, WA
-  '97201': { lat: 45.5051, lng: -122.6750 }, // Portland, OR
-  '89101': { lat: 36.1699, lng: -115.1398 }, // Las Vegas, NV
-
-  // Major medical/research centers
-  '55905': { lat: 44.0225, lng: -92.4669 }, // Rochester, MN (Mayo Clinic)
-  '27710': { lat: 36.0014, lng: -78.9382 }, // Durham, NC (Duke)
-  '02114': { lat: 42.3626, lng: -71.0688 }, // Boston, MA (MGH)
-  '21287': { lat: 39.2965, lng: -76.5927 }, // Baltimore, MD (Johns Hopkins)
-
-  // Additional medical centers (for mock data)
-  '10065': { lat: 40.7649, lng: -73.9632 }, // New York, NY (Memorial Sloan Kettering)
-  '10016': { lat: 40.7425, lng: -73.9780 }, // New York, NY (NYU Langone)
-  '20892': { lat: 39.0000, lng: -77.1000 }, // Bethesda, MD (NIH)
-  '94305': { lat: 37.4275, lng: -122.1697 }, // Stanford, CA (Stanford Medical)
-};
+interface PrefixCentroid {
+  prefix: number;
+  coordinates: Coordinates;
+}
+
+interface ZipcodeDatabase {
+  codes: Record<string, ZipCodeInfo>;
+  lookupByName(city: string, state: string): ZipCodeInfo[];
+  // Centre of the ZIPs sharing each 3-digit prefix, ordered by prefix
+  prefixCentroids: PrefixCentroid[];
+  // City lookups scan a whole state, so their results are kept
+  cityCache: Map<string, Coordinates | null>;
+}
+
+// How far apart two 3-digit prefixes may be for one to stand in for the other
+const MAX_PREFIX_GAP = 10;
+
+// The full table is several megabytes, so it is only loaded when first needed
+let zipcodeDatabase: Promise<ZipcodeDatabase> | null = null;
+
+function loadZipcodeDatabase(): Promise<ZipcodeDatabase> {
+  zipcodeDatabase ??= import('zipcodes').then(({ default: zipcodes }) => ({
+    codes: zipcodes.codes,
+    lookupByName: zipcodes.lookupByName,
+    prefixCentroids: buildPrefixCentroids(Object.values(zipcodes.codes)),
+    cityCache: new Map(),
+  }));
+  return zipcodeDatabase;
+}
+
+function toCoordinates(info: ZipCodeInfo): Coordinates {
+  return { lat: info.latitude, lng: info.longitude };
+}
+
+function hasCoordinates(info: ZipCodeInfo): boolean {
+  return typeof info.latitude === 'number' && typeof info.longitude === 'number';
+}
+
+function centroid(points: Coordinates[]): Coordinates {
+  return {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+  };
+}
+
+function buildPrefixCentroids(codes: ZipCodeInfo[]): PrefixCentroid[] {
+  const groups = new Map<number, Coordinates[]>();
+
+  for (const info of codes) {
+    if (info.country !== 'US' || !isValidZipcode(info.zip) || !hasCoordinates(info)) {
+      continue;
+    }
+    const prefix = Number(info.zip.slice(0, 3));
+    const group = groups.get(prefix) ?? [];
+    group.push(toCoordinates(info));
+    groups.set(prefix, group);
+  }
+
+  return [...groups]
+    .map(([prefix, points]) => ({ prefix, coordinates: centroid(points) }))
+    .sort((a, b) => a.prefix - b.prefix);
+}
+
+/**
+ * Approximate an unlisted ZIP by the centre of the nearest 3-digit prefix;
+ * prefixes are assigned by region, so neighbours are close on the ground
+ */
+function findNearestCentroid(database: ZipcodeDatabase, zipcode: string): Coordinates | null {
+  const prefix = Number(zipcode.slice(0, 3));
+  let nearest: PrefixCentroid | null = null;
+
+  for (const candidate of database.prefixCentroids) {
+    const gap = Math.abs(candidate.prefix - prefix);
+    if (gap <= MAX_PREFIX_GAP && (!nearest || gap < Math.abs(nearest.prefix - prefix))) {
+      nearest = candidate;
+    }
+  }
+
+  return nearest?.coordinates ?? null;
+}
+
+function lookupZipcode(database: ZipcodeDatabase, zipcode: string): Coordinates | null {
+  const normalized = normalizeZipcode(zipcode);
+  if (!normalized) {
+    return null;
+  }
+
+  const info = database.codes[normalized];
+  if (info && hasCoordinates(info)) {
+    return toCoordinates(info);
+  }
+  return findNearestCentroid(database, normalized);
+}
+
+function lookupCity(database: ZipcodeDatabase, city: string, state: string): Coordinates | null {
+  if (!city || !state) {
+    return null;
+  }
+
+  const key = `${city.toUpperCase()}|${state.toUpperCase()}`;
+  if (!database.cityCache.has(key)) {
+    const points = database.lookupByName(city, state).filter(hasCoordinates).map(toCoordinates);
+    database.cityCache.set(key, points.length > 0 ? centroid(points) : null);
+  }
+  return database.cityCache.get(key) ?? null;
+}
+
+function lookupPostalCode(
+  database: ZipcodeDatabase,
+  postalCode: string,
+  country: string
+): Coordinates | null {
+  if (country === DEFAULT_COUNTRY) {
+    return lookupZipcode(database, postalCode);
+  }
+  if (country === 'Canada') {
+    // Canadian entries cover a forward sortation area, the first three characters
+    const info = database.codes[postalCode.trim().slice(0, 3).toUpperCase()];
+    return info?.country === 'Canada' && hasCoordinates(info) ? toCoordinates(info) : null;
+  }
+  return null;
+}
+
+function lookupLocation(database: ZipcodeDatabase, location: Location): Coordinates | null {
+  if (location.coordinates) {
+    return location.coordinates;
+  }
+
+  const coordinates = lookupPostalCode(database, location.zipcode, location.country);
+  if (coordinates || location.country !== DEFAULT_COUNTRY) {
+    return coordinates;
+  }
+  return lookupCity(database, location.city, location.state);
+}
 
 // ============================================================================
 // Coordinate Functions
@@ -83,15 +161,68 @@ const ZIPCODE_DATA: Record<string, Coordinates> = {
 
 /**
  * Get coordinates for a US zipcode
- * @param zipcode - 5-digit US zipcode
+ * ZIPs missing from the database are placed at the centre of the nearest
+ * 3-digit prefix.
+ * @param zipcode - 5-digit US zipcode, optionally ZIP+4
  * @returns Coordinates or null if not found
  */
-export function getCoordinates(zipcode: string): Coordinates | null {
-  if (!isValidZipcode(zipcode)) {
-    return null;
+export async function getCoordinates(zipcode: string): Promise<Coordinates | null> {
+  return lookupZipcode(await loadZipcodeDatabase(), zipcode);
+}
+
+/**
+ * Get coordinates for a postal code
+ * Only the United States and Canada (by the first three characters) are
+ * covered; elsewhere the patient's coordinates are needed.
+ */
+export async function getPostalCodeCoordinates(
+  postalCode: string,
+  country: string
+): Promise<Coordinates | null> {
+  return lookupPostalCode(await loadZipcodeDatabase(), postalCode, country);
+}
+
+/**
+ * Whether getPostalCodeCoordinates can place postal codes in this country
+ */
+export function canGeocodePostalCodes(country: string): boolean {
+  return country === DEFAULT_COUNTRY || country === 'Canada';
+}
+
+/**
+ * Coordinates for a patient's origin, or null if it cannot be placed
+ */
+export async function resolveOrigin(origin: Origin): Promise<Coordinates | null> {
+  return origin.coordinates ?? getPostalCodeCoordinates(origin.zipcode, origin.country);
+}
+
+/**
+ * Fill in coordinates for locations ClinicalTrials.gov did not geocode, by
+ * postal code or city as for distances
+ * Locations that cannot be placed are returned unchanged.
+ */
+export async function placeLocations(locations: Location[]): Promise<Location[]> {
+  if (locations.every((location) => location.coordinates)) {
+    return locations;
   }
 
-  return ZIPCODE_DATA[zipcode] || null;
+  const database = await loadZipcodeDatabase();
+  return locations.map((location) => {
+    const coordinates = lookupLocation(database, location);
+    return coordinates ? { ...location, coordinates } : location;
+  });
+}
+
+/**
+ * Get coordinates for a US city, for trial sites listed without a zipcode
+ * @param state - Abbreviation or full name
+ * @returns The centre of the city's ZIPs, or null if not found
+ */
+export async function getCoordinatesByCity(
+  city: string,
+  state: string
+): Promise<Coordinates | null> {
+  return lookupCity(await loadZipcodeDatabase(), city, state);
 }
 
 /**
@@ -101,6 +232,14 @@ export function isValidZipcode(zipcode: string): boolean {
   return /^\d{5}$/.test(zipcode);
 }
 
+/**
+ * The 5-digit part of a ZIP or ZIP+4, or null if it is neither
+ */
+function normalizeZipcode(zipcode: string): string | null {
+  const match = zipcode.trim().match(/^(\d{5})(-\d{4})?$/);
+  return match ? match[1] : null;
+}
+
 // ============================================================================
 // Distance Calculation (Haversine Formula)
 // ============================================================================
@@ -139,12 +278,13 @@ export function calculateDistance(coord1: Coordinates, coord2: Coordinates): num
  * Calculate distance between two zipcodes
  * @returns Distance in miles or null if either zipcode is invalid
  */
-export function calculateDistanceByZipcode(
+export async function calculateDistanceByZipcode(
   zipcode1: string,
   zipcode2: string
-): number | null {
-  const coord1 = getCoordinates(zipcode1);
-  const coord2 = getCoordinates(zipcode2);
+): Promise<number | null> {
+  const database = await loadZipcodeDatabase();
+  const coord1 = lookupZipcode(database, zipcode1);
+  const coord2 = lookupZipcode(database, zipcode2);
 
   if (!coord1 || !coord2) {
     return null;
@@ -158,76 +298,55 @@ export function calculateDistanceByZipcode(
 // ============================================================================
 
 /**
- * Filter locations within a radius of an origin zipcode
+ * Filter locations within a radius of an origin
+ * Sites are placed by their own coordinates where ClinicalTrials.gov has
+ * them, then by postal code, then (in the United States) by city and state.
  * @param locations - Array of locations to filter
- * @param originZip - Origin zipcode
+ * @param origin - Patient coordinates, see resolveOrigin
  * @param radiusMiles - Maximum distance in miles
  * @returns Filtered locations with distance added, sorted by distance
  */
-export function filterByRadius(
+export async function filterByRadius(
   locations: Location[],
-  originZip: string,
+  origin: Coordinates,
   radiusMiles: number
-): Location[] {
-  const originCoords = getCoordinates(originZip);
+): Promise<Location[]> {
+  const withDistance = await addDistanceToLocations(locations, origin);
 
-  if (!originCoords) {
-    return [];
-  }
-
-  const locationsWithDistance: Location[] = [];
-
-  for (const location of locations) {
-    const locationCoords = getCoordinates(location.zipcode);
-
-    if (locationCoords) {
-      const distance = calculateDistance(originCoords, locationCoords);
-
-      if (distance <= radiusMiles) {
-        locationsWithDistance.push({
-          ...location,
-          distance: Math.round(distance * 10) / 10, // Round to 1 decimal
-        });
-      }
-    }
-  }
-
-  // Sort by distance ascending
-  return locationsWithDistance.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
+  return withDistance
+    .filter((location) => location.distance !== undefined && location.distance <= radiusMiles)
+    .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
 }
 
 /**
  * Find the nearest location from an array
  * @returns Nearest location with distance or null if none found
  */
-export function findNearestLocation(
+export async function findNearestLocation(
   locations: Location[],
-  originZip: string
-): Location | null {
-  const filtered = filterByRadius(locations, originZip, Infinity);
+  origin: Coordinates
+): Promise<Location | null> {
+  const filtered = await filterByRadius(locations, origin, Infinity);
   return filtered.length > 0 ? filtered[0] : null;
 }
 
 /**
  * Add distance to all locations from an origin
+ * Locations that cannot be placed are returned without a distance.
  */
-export function addDistanceToLocations(
+export async function addDistanceToLocations(
   locations: Location[],
-  originZip: string
-): Location[] {
-  const originCoords = getCoordinates(originZip);
-
-  if (!originCoords) {
-    return locations;
-  }
+  origin: Coordinates
+): Promise<Location[]> {
+  const database = await loadZipcodeDatabase();
 
   return locations.map((location) => {
-    const locationCoords = getCoordinates(location.zipcode);
+    const locationCoords = lookupLocation(database, location);
     if (locationCoords) {
-      const distance = calculateDistance(originCoords, locationCoords);
+      const distance = calculateDistance(origin, locationCoords);
       return {
         ...location,
-        distance: Math.round(distance * 10) / 10,
+        distance: Math.round(distance * 10) / 10, // Round to 1 decimal
       };
     }
     return location;
@@ -0,0 +1,51 @@
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DB_NAME = 'clinical-matchmaker';
+const DB_VERSION = 2;
+
+export const CHECKPOINT_STORE = 'pipeline-checkpoints';
+export const EXTRACTION_STORE = 'eligibility-extractions';
+
+// Object stores and the field each one is keyed on
+const STORE_KEYS: Record<string, string> = {
+  [CHECKPOINT_STORE]: 'runId',
+  [EXTRACTION_STORE]: 'nctId',
+};
+
+// ============================================================================
+// Database Access
+// ============================================================================
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    for (const [name, keyPath] of Object.entries(STORE_KEYS)) {
+      if (!request.result.objectStoreNames.contains(name)) {
+        request.result.createObjectStore(name, { keyPath });
+      }
+    }
+  };
+  return promisify(request);
+}
+
+/**
+ * Open one of the app's object stores in a new transaction
+ */
+export async function getObjectStore(
+  name: string,
+  mode: IDBTransactionMode
+): Promise<IDBObjectStore> {
+  database ??= openDatabase();
+  return (await database).transaction(name, mode).objectStore(name);
+}
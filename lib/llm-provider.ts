@@ -0,0 +1,235 @@
+import { apiHeaders, apiUrl } from './api';
+import { getLLMProviderName } from './config';
+import { createServiceError } from './resilience';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export type LLMMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; text?: string; toolCalls: LLMToolCall[] }
+  | { role: 'tool_result'; toolCallId: string; content: string; isError: boolean };
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  // JSON schema for the tool input; must describe an object
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LLMRequest {
+  agentId: string;
+  // The agent input before serialization; the stub keys responses on it
+  input: unknown;
+  system: string;
+  messages: LLMMessage[];
+  // The model is required to answer by calling this tool
+  tool: LLMTool;
+  maxTokens: number;
+}
+
+export interface LLMResponse {
+  text?: string;
+  toolCalls: LLMToolCall[];
+  stopReason: string | null;
+  // Model that produced the response
+  model: string;
+}
+
+export interface LLMProvider {
+  // anthropic is only used on the API server, which holds the key
+  name: 'anthropic' | 'proxy' | 'stub';
+  // Model requests go to; the proxy leaves the choice to the server
+  model: string;
+  // The signal aborts a request that has taken too long
+  complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse>;
+}
+
+/**
+ * A canned response, as stored in fixtures/llm/<agent-id>/<input-hash>.json
+ */
+export interface StubFixture {
+  agentId: string;
+  // Omitted in default.json
+  inputHash?: string;
+  output: unknown;
+}
+
+// ============================================================================
+// Proxy Provider
+// ============================================================================
+
+/**
+ * Create a provider that sends requests through the API server
+ */
+export function createProxyProvider(endpoint: string = apiUrl('/llm/complete')): LLMProvider {
+  return {
+    name: 'proxy',
+    model: 'server-default',
+    async complete(request, signal) {
+      // The server builds the rest of the request for the agent itself
+      const rejected = request.messages.flatMap((message) =>
+        message.role === 'assistant'
+          ? message.toolCalls.map((call) => ({ toolCallId: call.id, output: call.input }))
+          : []
+      );
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: apiHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ agentId: request.agentId, input: request.input, rejected }),
+        signal,
+      });
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw createServiceError('LLM proxy rate limit exceeded', response);
+        }
+        const body = await response.json().catch(() => ({}));
+        throw createServiceError(
+          `LLM proxy error: ${response.status} ${body.error ?? response.statusText}`,
+          response
+        );
+      }
+
+      return response.json();
+    },
+  };
+}
+
+// ============================================================================
+// Stub Provider
+// ============================================================================
+
+const STUB_FIXTURE_LOADERS = import.meta.glob<StubFixture>(
+  '../fixtures/llm/*/*.json',
+  { import: 'default' }
+);
+
+/**
+ * JSON with object keys sorted, so equal inputs serialize identically
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Deterministic 53-bit hash of an agent input (cyrb53), as 14 hex characters
+ */
+export function hashAgentInput(input: unknown): string {
+  const text = stableStringify(input);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Create a provider that replays canned responses instead of calling a model
+ * Responses are looked up by agent id and input hash: first in `responses`
+ * (keyed "<agent-id>/<input-hash>"), then fixtures/llm/<agent-id>/<input-hash>.json,
+ * then fixtures/llm/<agent-id>/default.json
+ */
+export function createStubProvider(responses: Record<string, unknown> = {}): LLMProvider {
+  async function lookup(agentId: string, inputHash: string): Promise<unknown> {
+    const key = `${agentId}/${inputHash}`;
+    if (key in responses) {
+      return responses[key];
+    }
+
+    const exact = STUB_FIXTURE_LOADERS[`../fixtures/llm/${key}.json`];
+    if (exact) {
+      return (await exact()).output;
+    }
+
+    const fallback = STUB_FIXTURE_LOADERS[`../fixtures/llm/${agentId}/default.json`];
+    if (fallback) {
+      console.log(`Stub LLM: no response for ${key}, using ${agentId}/default.json`);
+      return (await fallback()).output;
+    }
+
+    throw new Error(
+      `No canned LLM response for ${agentId} (input hash ${inputHash}). ` +
+      `Add fixtures/llm/${key}.json or fixtures/llm/${agentId}/default.json`
+    );
+  }
+
+  return {
+    name: 'stub',
+    model: 'local-stub',
+    async complete(request) {
+      const inputHash = hashAgentInput(request.input);
+      const output = await lookup(request.agentId, inputHash);
+      const turn = request.messages.filter((m) => m.role === 'assistant').length;
+
+      return {
+        toolCalls: [{ id: `stub-${inputHash}-${turn}`, name: request.tool.name, input: output }],
+        stopReason: 'tool_use',
+        model: 'local-stub',
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Whether agents have a model to call: an override, or a provider other than none
+ */
+export function isLLMConfigured(): boolean {
+  return providerOverride !== null || getLLMProviderName() !== 'none';
+}
+
+/**
+ * Create the provider chosen by VITE_LLM_PROVIDER
+ */
+export function createLLMProvider(): LLMProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  switch (getLLMProviderName()) {
+    case 'stub':
+      return createStubProvider();
+    case 'none':
+      throw new Error('No LLM provider is configured (VITE_LLM_PROVIDER=none)');
+    default:
+      return createProxyProvider();
+  }
+}
+
+/**
+ * Use a specific provider for every agent (pass null to use the configured one)
+ * The API server uses this to call the model directly.
+ */
+export function setLLMProviderOverride(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
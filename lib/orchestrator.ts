@@ -2,11 +2,17 @@ import { runScoutAgent } from '../agents/scout';
 import { runExtractorAgent } from '../agents/extractor';
 import { runMatcherAgent } from '../agents/matcher';
 import { runAdvocateAgent } from '../agents/advocate';
+import type { CheckpointStore } from './checkpoint';
+import { toPipelineError } from './errors';
 import type {
   PatientProfile,
+  PipelineCheckpoint,
+  PipelineError,
+  PipelineEvent,
   PipelineResult,
   PipelineStep,
   MatchResult,
+  Trial,
   VoiceScript,
   EligibilityCriteria,
 } from './schemas';
@@ -15,12 +21,17 @@ import type {
 // Types
 // ============================================================================
 
-export type ProgressCallback = (step: PipelineStep, logs?: string[]) => void;
+export type PipelineEventCallback = (event: PipelineEvent) => void;
 
 export interface PipelineOptions {
   maxTrials?: number;
+  // Trials being extracted and matched at once
   concurrency?: number;
   abortSignal?: AbortSignal;
+  // Generate ElevenLabs audio for the voice summary (default true)
+  synthesizeAudio?: boolean;
+  // Save progress as the run goes, and pick up from an earlier save of the same run
+  checkpoint?: { store: CheckpointStore; runId: string };
 }
 
 // ============================================================================
@@ -53,30 +64,33 @@ function createStep(
   };
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 2,
-  baseDelayMs: number = 1000
-): Promise<T> {
-  let lastError: Error | undefined;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (attempt < maxRetries) {
-        await sleep(baseDelayMs * Math.pow(2, attempt));
+/**
+ * Run `task` for every item, with at most `limit` running at once
+ * Once a task throws no more items are started, and after the tasks already
+ * running settle this rejects with the first error.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const errors: unknown[] = [];
+
+  const worker = async () => {
+    while (errors.length === 0 && next < items.length) {
+      try {
+        await task(items[next++]);
+      } catch (error) {
+        errors.push(error);
       }
     }
-  }
+  };
 
-  throw lastError;
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  if (errors.length > 0) {
+    throw errors[0];
+  }
 }
 
 // ============================================================================
@@ -88,16 +102,39 @@ async function withRetry<T>(
  */
 export async function runPipeline(
   patientProfile: PatientProfile,
-  onProgress: ProgressCallback,
+  onEvent: PipelineEventCallback,
   options: PipelineOptions = {}
 ): Promise<PipelineResult> {
-  const { maxTrials = 5, concurrency = 3, abortSignal } = options;
+  const { maxTrials = 5, concurrency = 3, abortSignal, synthesizeAudio = true, checkpoint } = options;
   const startTime = Date.now();
   const completedSteps: PipelineStep[] = [];
-  const logs: string[] = [];
+
+  // Trials still in flight when a run fails must not report after its final event
+  let ended = false;
+  const emit = (event: PipelineEvent) => {
+    if (!ended) {
+      ended = isFinalPipelineEvent(event);
+      onEvent(event);
+    }
+  };
 
   const addLog = (message: string) => {
-    logs.push(`[${new Date().toISOString()}] ${message}`);
+    emit({ type: 'log', message, timestamp: new Date().toISOString() });
+  };
+
+  const reportStep = (step: PipelineStep) => {
+    if (step.status === 'complete' || step.status === 'error') {
+      emit({ type: 'step_complete', step });
+    } else if (step.progress) {
+      emit({ type: 'step_progress', step });
+    } else {
+      emit({ type: 'step_started', step });
+    }
+  };
+
+  const finish = (result: PipelineResult): PipelineResult => {
+    emit({ type: 'pipeline_complete', result });
+    return result;
   };
 
   const checkAbort = () => {
@@ -106,188 +143,230 @@ export async function runPipeline(
     }
   };
 
+  const saved = checkpoint ? await checkpoint.store.load(checkpoint.runId) : null;
+  const state: PipelineCheckpoint = saved ?? {
+    runId: checkpoint?.runId ?? '',
+    patientProfile,
+    eligibility: {},
+    matches: {},
+    updatedAt: new Date().toISOString(),
+  };
+
+  const saveCheckpoint = () => {
+    if (!checkpoint) return;
+    state.updatedAt = new Date().toISOString();
+    checkpoint.store.save(state).catch((error) => {
+      addLog(`Could not save progress: ${error}`);
+    });
+  };
+
   try {
     // ========================================================================
     // Step 1: Scout - Discover Trials
     // ========================================================================
-    addLog('Starting trial discovery...');
-    onProgress(createStep('scout', 'running'), logs);
+    reportStep(createStep('scout', 'running'));
 
     checkAbort();
 
-    const scoutResult = await withRetry(() =>
-      runScoutAgent({
+    if (state.scout) {
+      addLog('Resuming earlier run...');
+    } else {
+      addLog('Starting trial discovery...');
+      const scoutOutput = await runScoutAgent({
         diagnosis: patientProfile.diagnosis,
+        country: patientProfile.country,
         zipcode: patientProfile.zipcode,
+        coordinates: patientProfile.coordinates,
         travelRadiusMiles: patientProfile.travelRadiusMiles,
-      })
-    );
+      }, abortSignal);
+      state.scout = { trials: scoutOutput.trials, totalFound: scoutOutput.totalFound };
+      saveCheckpoint();
+    }
+    const scoutResult = state.scout;
 
     if (scoutResult.trials.length === 0) {
       addLog('No matching trials found');
-      completedSteps.push(createStep('scout', 'complete'));
 
       // Return early with empty results
-      return {
+      const skippedSteps = PIPELINE_STEPS.map((s) => createStep(s.id, 'complete'));
+      skippedSteps.forEach(reportStep);
+      return finish({
         trials: [],
         matchResults: [],
         voiceScript: undefined,
-        completedSteps: [
-          createStep('scout', 'complete'),
-          createStep('extractor', 'complete'),
-          createStep('matcher', 'complete'),
-          createStep('advocate', 'complete'),
-        ],
+        completedSteps: skippedSteps,
+        errors: [],
         duration: Date.now() - startTime,
-      };
+      });
     }
 
     const trials = scoutResult.trials.slice(0, maxTrials);
     addLog(`Found ${scoutResult.totalFound} trials, processing top ${trials.length}`);
+    trials.forEach((trial) => emit({ type: 'trial_discovered', trial }));
     completedSteps.push(createStep('scout', 'complete'));
-    onProgress(createStep('scout', 'complete'), logs);
+    reportStep(createStep('scout', 'complete'));
 
     // ========================================================================
-    // Step 2: Extractor - Extract Eligibility Criteria
+    // Steps 2 & 3: Extractor and Matcher, per trial
     // ========================================================================
+    // Each trial goes from extraction straight to matching, so results arrive
+    // as soon as any one trial is done and a slow trial holds up only itself
     addLog('Extracting eligibility criteria...');
-    onProgress(createStep('extractor', 'running', 0), logs);
+    reportStep(createStep('extractor', 'running', 0));
 
     checkAbort();
 
     const eligibilityMap = new Map<string, EligibilityCriteria>();
-    const extractionErrors: string[] = [];
+    const matchResults: MatchResult[] = [];
+    const errors: PipelineError[] = [];
+    let matcherStarted = false;
+
+    const failedAt = (stage: PipelineStep['id']) => errors.filter((e) => e.stage === stage).length;
+    const extractionsSettled = () => eligibilityMap.size + failedAt('extractor');
+
+    const reportExtraction = () => {
+      if (extractionsSettled() < trials.length) {
+        const progress = Math.round((extractionsSettled() / trials.length) * 100);
+        reportStep(createStep('extractor', 'running', progress));
+      } else {
+        completedSteps.push(createStep('extractor', 'complete'));
+        reportStep(createStep('extractor', 'complete'));
+      }
+    };
 
-    // Process in batches for concurrency control
-    for (let i = 0; i < trials.length; i += concurrency) {
-      checkAbort();
+    const reportMatching = () => {
+      // Trials still being extracted may yet need matching
+      const expected = trials.length - failedAt('extractor');
+      const progress = Math.round(((matchResults.length + failedAt('matcher')) / expected) * 100);
+      reportStep(createStep('matcher', 'running', progress));
+    };
 
-      const batch = trials.slice(i, i + concurrency);
-      const batchResults = await Promise.allSettled(
-        batch.map((trial) =>
-          withRetry(() => runExtractorAgent({ nctId: trial.nctId }))
-        )
-      );
+    await runWithConcurrency(trials, concurrency, async (trial) => {
+      checkAbort();
 
-      batchResults.forEach((result, idx) => {
-        const trial = batch[idx];
-        if (result.status === 'fulfilled') {
-          eligibilityMap.set(trial.nctId, result.value);
-          addLog(`Extracted criteria for ${trial.nctId}`);
-        } else {
-          extractionErrors.push(trial.nctId);
-          addLog(`Failed to extract criteria for ${trial.nctId}: ${result.reason}`);
+      // Trials finished before a reload or failure are not redone
+      let criteria = state.eligibility[trial.nctId];
+      if (!criteria) {
+        try {
+          criteria = await runExtractorAgent({ nctId: trial.nctId }, abortSignal);
+        } catch (error) {
+          checkAbort();
+          errors.push(toPipelineError('extractor', error, trial.nctId));
+          addLog(`Failed to extract criteria for ${trial.nctId}: ${error}`);
+          reportExtraction();
+          return;
         }
-      });
 
-      const progress = Math.round(((i + batch.length) / trials.length) * 100);
-      onProgress(createStep('extractor', 'running', progress), logs);
-    }
+        state.eligibility[trial.nctId] = criteria;
+        saveCheckpoint();
+        addLog(`Extracted criteria for ${trial.nctId}`);
+      }
 
-    completedSteps.push(createStep('extractor', 'complete'));
-    onProgress(createStep('extractor', 'complete'), logs);
+      eligibilityMap.set(trial.nctId, criteria);
+      emit({ type: 'criteria_extracted', nctId: trial.nctId, criteria });
+      reportExtraction();
+
+      const savedMatch = state.matches[trial.nctId];
+      if (savedMatch) {
+        matchResults.push(savedMatch);
+        emit({ type: 'match_scored', matchResult: savedMatch });
+        reportMatching();
+        return;
+      }
+
+      checkAbort();
+
+      if (!matcherStarted) {
+        matcherStarted = true;
+        addLog('Matching your profile against trials...');
+        reportStep(createStep('matcher', 'running', 0));
+      }
+
+      try {
+        const matchResult = await runMatcherAgent({
+          patientProfile,
+          eligibilityCriteria: criteria,
+          nctId: trial.nctId,
+        }, abortSignal);
+        matchResults.push(matchResult);
+        state.matches[trial.nctId] = matchResult;
+        saveCheckpoint();
+        emit({ type: 'match_scored', matchResult });
+        addLog(`Matched ${trial.nctId}: ${matchResult.category} (${matchResult.score})`);
+      } catch (error) {
+        errors.push(toPipelineError('matcher', error, trial.nctId));
+        addLog(`Failed to match ${trial.nctId}: ${error}`);
+      }
+      reportMatching();
+    });
 
     // Filter trials with successful extraction
     const trialsWithCriteria = trials.filter((t) => eligibilityMap.has(t.nctId));
 
     if (trialsWithCriteria.length === 0) {
       addLog('Could not extract criteria for any trials');
-      return {
+      const failedStep = createStep('matcher', 'error', undefined, 'No criteria extracted');
+      reportStep(failedStep);
+      return finish({
         trials,
         matchResults: [],
         voiceScript: undefined,
-        completedSteps: [...completedSteps, createStep('matcher', 'error', undefined, 'No criteria extracted')],
+        completedSteps: [...completedSteps, failedStep],
+        errors,
         duration: Date.now() - startTime,
-      };
-    }
-
-    // ========================================================================
-    // Step 3: Matcher - Match Patient Profile
-    // ========================================================================
-    addLog('Matching your profile against trials...');
-    onProgress(createStep('matcher', 'running', 0), logs);
-
-    checkAbort();
-
-    const matchResults: MatchResult[] = [];
-    const matchErrors: string[] = [];
-
-    for (let i = 0; i < trialsWithCriteria.length; i += concurrency) {
-      checkAbort();
-
-      const batch = trialsWithCriteria.slice(i, i + concurrency);
-      const batchResults = await Promise.allSettled(
-        batch.map((trial) => {
-          const criteria = eligibilityMap.get(trial.nctId)!;
-          return withRetry(() =>
-            runMatcherAgent({
-              patientProfile,
-              eligibilityCriteria: criteria,
-              nctId: trial.nctId,
-            })
-          );
-        })
-      );
-
-      batchResults.forEach((result, idx) => {
-        const trial = batch[idx];
-        if (result.status === 'fulfilled') {
-          matchResults.push(result.value);
-          addLog(`Matched ${trial.nctId}: ${result.value.category} (${result.value.score})`);
-        } else {
-          matchErrors.push(trial.nctId);
-          addLog(`Failed to match ${trial.nctId}: ${result.reason}`);
-        }
       });
-
-      const progress = Math.round(((i + batch.length) / trialsWithCriteria.length) * 100);
-      onProgress(createStep('matcher', 'running', progress), logs);
     }
 
     // Sort by score descending
     matchResults.sort((a, b) => b.score - a.score);
 
     completedSteps.push(createStep('matcher', 'complete'));
-    onProgress(createStep('matcher', 'complete'), logs);
+    reportStep(createStep('matcher', 'complete'));
 
     // ========================================================================
     // Step 4: Advocate - Generate Voice Summary
     // ========================================================================
     addLog('Creating your personalized summary...');
-    onProgress(createStep('advocate', 'running'), logs);
+    reportStep(createStep('advocate', 'running'));
 
     checkAbort();
 
     let voiceScript: VoiceScript | undefined;
 
     try {
-      voiceScript = await withRetry(() =>
-        runAdvocateAgent({
+      voiceScript = await runAdvocateAgent(
+        {
           matchResults,
           patientProfile,
           language: patientProfile.languagePreference,
-        })
+        },
+        { synthesizeAudio, signal: abortSignal }
       );
+      emit({ type: 'audio_ready', voiceScript });
       addLog('Voice summary created successfully');
     } catch (error) {
+      errors.push(toPipelineError('advocate', error));
       addLog(`Voice summary failed: ${error}`);
       // Continue without voice - not a critical failure
     }
 
     completedSteps.push(createStep('advocate', 'complete'));
-    onProgress(createStep('advocate', 'complete'), logs);
+    reportStep(createStep('advocate', 'complete'));
 
     // ========================================================================
     // Return Results
     // ========================================================================
-    return {
+    return finish({
       trials: trialsWithCriteria,
       matchResults,
       voiceScript,
       completedSteps,
+      errors,
       duration: Date.now() - startTime,
-    };
-  } catch (error) {
+    });
+  } catch (caught) {
+    // Requests in flight when the run is cancelled fail with an AbortError
+    const error = abortSignal?.aborted ? new Error('Pipeline cancelled by user') : caught;
     const errorMessage = error instanceof Error ? error.message : String(error);
     addLog(`Pipeline error: ${errorMessage}`);
 
@@ -296,7 +375,10 @@ export async function runPipeline(
       ? PIPELINE_STEPS[completedSteps.length].id
       : 'advocate';
 
-    completedSteps.push(createStep(failedStepId as PipelineStep['id'], 'error', undefined, errorMessage));
+    const failedStep = createStep(failedStepId as PipelineStep['id'], 'error', undefined, errorMessage);
+    completedSteps.push(failedStep);
+    reportStep(failedStep);
+    emit({ type: 'pipeline_error', message: errorMessage });
 
     throw error;
   }
@@ -316,6 +398,63 @@ export function getInitialSteps(): PipelineStep[] {
   }));
 }
 
+/**
+ * Everything known about a run so far, built up from its events
+ */
+export interface PipelineProgress {
+  steps: PipelineStep[];
+  trials: Trial[];
+  // Highest score first
+  matchResults: MatchResult[];
+  logs: string[];
+  voiceScript?: VoiceScript;
+  result?: PipelineResult;
+  error?: string;
+}
+
+export function getInitialProgress(): PipelineProgress {
+  return { steps: getInitialSteps(), trials: [], matchResults: [], logs: [] };
+}
+
+/**
+ * Fold one pipeline event into the progress so far (returns a new object)
+ */
+export function applyPipelineEvent(progress: PipelineProgress, event: PipelineEvent): PipelineProgress {
+  switch (event.type) {
+    case 'step_started':
+    case 'step_progress':
+    case 'step_complete':
+      return {
+        ...progress,
+        steps: progress.steps.map((s) => (s.id === event.step.id ? event.step : s)),
+      };
+    case 'trial_discovered':
+      return { ...progress, trials: [...progress.trials, event.trial] };
+    case 'criteria_extracted':
+      return progress;
+    case 'match_scored':
+      return {
+        ...progress,
+        matchResults: [...progress.matchResults, event.matchResult].sort((a, b) => b.score - a.score),
+      };
+    case 'audio_ready':
+      return { ...progress, voiceScript: event.voiceScript };
+    case 'log':
+      return { ...progress, logs: [...progress.logs, `[${event.timestamp}] ${event.message}`] };
+    case 'pipeline_complete':
+      return { ...progress, result: event.result };
+    case 'pipeline_error':
+      return { ...progress, error: event.message };
+  }
+}
+
+/**
+ * Whether an event is the last one of its run
+ */
+export function isFinalPipelineEvent(event: PipelineEvent): boolean {
+  return event.type === 'pipeline_complete' || event.type === 'pipeline_error';
+}
+
 /**
  * Calculate overall pipeline progress
  */
@@ -0,0 +1,249 @@
+import { apiHeaders, apiUrl } from './api';
+import { isFinalPipelineEvent } from './orchestrator';
+import type { PipelineEventCallback, PipelineOptions } from './orchestrator';
+import { PipelineEventSchema, PipelineJobSchema } from './schemas';
+import type { PatientProfile, PipelineEvent, PipelineJob, PipelineResult } from './schemas';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Reconnects allowed after the event stream drops before the run has ended
+const MAX_RECONNECTS = 3;
+
+const RECONNECT_DELAY_MS = 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ServerRunOptions extends Pick<PipelineOptions, 'abortSignal'> {
+  // Job started for this run before a reload or a failure
+  jobId?: string;
+  // Called with each job started, so the run can find it again after a reload
+  onJobStarted?: (jobId: string) => void;
+}
+
+// ============================================================================
+// Job Requests
+// ============================================================================
+
+async function requestJson(path: string, init: RequestInit = {}): Promise<unknown> {
+  const response = await fetch(apiUrl(path), {
+    ...init,
+    headers: apiHeaders({ 'Content-Type': 'application/json' }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(`Pipeline job error: ${response.status} ${body.error ?? response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Start a pipeline run on the API server
+ * Resuming a failed or cancelled job skips the trials it already finished.
+ */
+export async function startPipelineJob(
+  patientProfile: PatientProfile,
+  resumeJobId?: string
+): Promise<PipelineJob> {
+  const query = resumeJobId ? `?resume=${encodeURIComponent(resumeJobId)}` : '';
+  const body = await requestJson(`/jobs${query}`, {
+    method: 'POST',
+    body: JSON.stringify(patientProfile),
+  });
+  return PipelineJobSchema.parse(body);
+}
+
+/**
+ * A job's status, or null once the server no longer has it
+ */
+export async function findPipelineJob(jobId: string): Promise<PipelineJob | null> {
+  const response = await fetch(apiUrl(`/jobs/${jobId}`), { headers: apiHeaders() });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Pipeline job error: ${response.status} ${response.statusText}`);
+  }
+  return PipelineJobSchema.parse(await response.json());
+}
+
+export async function cancelPipelineJob(jobId: string): Promise<PipelineJob> {
+  const body = await requestJson(`/jobs/${jobId}`, { method: 'DELETE' });
+  return PipelineJobSchema.parse(body);
+}
+
+// ============================================================================
+// Event Stream
+// ============================================================================
+
+/**
+ * Split Server-Sent Events text into complete messages, returning the
+ * unfinished remainder
+ */
+function parseEventMessages(buffer: string): {
+  messages: Array<{ id?: string; data: string }>;
+  rest: string;
+} {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? '';
+
+  const messages = blocks.flatMap((block) => {
+    let id: string | undefined;
+    const data: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('id:')) {
+        id = line.slice(3).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      }
+      // event: duplicates the type inside data; comment lines are heartbeats
+    }
+
+    return data.length > 0 ? [{ id, data: data.join('\n') }] : [];
+  });
+
+  return { messages, rest };
+}
+
+/**
+ * Read a job's events until its final event, reconnecting where the last
+ * stream left off if the connection drops
+ */
+export async function streamPipelineEvents(
+  jobId: string,
+  onEvent: (event: PipelineEvent) => void,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  let lastEventId: string | undefined;
+  let reconnects = 0;
+
+  for (;;) {
+    let finished = false;
+
+    try {
+      const response = await fetch(apiUrl(`/jobs/${jobId}/events`), {
+        headers: apiHeaders(lastEventId === undefined ? {} : { 'Last-Event-ID': lastEventId }),
+        signal: abortSignal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Pipeline event stream error: ${response.status} ${response.statusText}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (!finished) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const parsed = parseEventMessages(buffer + value);
+        buffer = parsed.rest;
+
+        for (const message of parsed.messages) {
+          const event = PipelineEventSchema.parse(JSON.parse(message.data));
+          lastEventId = message.id ?? lastEventId;
+          reconnects = 0;
+          onEvent(event);
+
+          if (isFinalPipelineEvent(event)) {
+            finished = true;
+            await reader.cancel();
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      if (abortSignal?.aborted || reconnects >= MAX_RECONNECTS) {
+        throw error;
+      }
+    }
+
+    if (finished) {
+      return;
+    }
+    if (reconnects >= MAX_RECONNECTS) {
+      throw new Error('Pipeline event stream closed before the run finished');
+    }
+
+    reconnects++;
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * reconnects));
+  }
+}
+
+// ============================================================================
+// Server Runs
+// ============================================================================
+
+/**
+ * The job to follow for a run: its earlier job while that is still going or
+ * has finished, otherwise a new one that picks up where a failed one stopped
+ */
+async function attachPipelineJob(
+  patientProfile: PatientProfile,
+  options: ServerRunOptions
+): Promise<PipelineJob> {
+  const earlier = options.jobId ? await findPipelineJob(options.jobId) : null;
+  if (earlier && (earlier.status === 'queued' || earlier.status === 'running' || earlier.status === 'complete')) {
+    return earlier;
+  }
+
+  const job = await startPipelineJob(patientProfile, earlier?.id);
+  options.onJobStarted?.(job.id);
+  return job;
+}
+
+/**
+ * Run the pipeline as an API server job, reporting the same events as
+ * runPipeline
+ * Given the job of an earlier attempt, a reload rejoins it rather than
+ * starting over, and a retry redoes only the trials it did not finish.
+ */
+export async function runPipelineOnServer(
+  patientProfile: PatientProfile,
+  onEvent: PipelineEventCallback,
+  options: ServerRunOptions = {}
+): Promise<PipelineResult> {
+  const { abortSignal } = options;
+  const job = await attachPipelineJob(patientProfile, options);
+
+  const cancel = () => {
+    cancelPipelineJob(job.id).catch(() => undefined);
+  };
+  abortSignal?.addEventListener('abort', cancel, { once: true });
+
+  let result: PipelineResult | undefined;
+  let failure: string | undefined;
+
+  // A rejoined job's events are replayed from its start, which rebuilds the
+  // progress the reload lost
+  try {
+    await streamPipelineEvents(
+      job.id,
+      (event) => {
+        if (event.type === 'pipeline_complete') result = event.result;
+        if (event.type === 'pipeline_error') failure = event.message;
+        onEvent(event);
+      },
+      abortSignal
+    );
+  } catch (error) {
+    if (abortSignal?.aborted) {
+      throw new Error('Pipeline cancelled by user');
+    }
+    throw error;
+  } finally {
+    abortSignal?.removeEventListener('abort', cancel);
+  }
+
+  if (!result) {
+    throw new Error(failure ?? 'Pipeline job ended without a result');
+  }
+  return result;
+}
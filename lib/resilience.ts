@@ -0,0 +1,261 @@
+import { isRetryableError } from './errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ServiceName = 'clinicaltrials' | 'rtrvr' | 'llm' | 'elevenlabs';
+
+export interface ServicePolicy {
+  label: string;
+  // Tries per call, including the first
+  maxAttempts: number;
+  baseDelayMs: number;
+  // Longest wait between tries; a longer Retry-After ends the call instead
+  maxDelayMs: number;
+  // Each try is abandoned after this long
+  timeoutMs: number;
+  // Retries allowed per minute across all calls, so a struggling service
+  // is not hit with every caller's retries at once
+  retryBudgetPerMinute: number;
+  // Consecutive failed calls that open the circuit
+  failureThreshold: number;
+  // How long an open circuit fails calls immediately before letting one through
+  cooldownMs: number;
+}
+
+/**
+ * An Error carrying what the HTTP response said about retrying
+ */
+export interface ServiceError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  // Tries callService made before giving up, including the first
+  attempts?: number;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+  // A trial call is in flight after the cooldown
+  probing: boolean;
+  retryTimestamps: number[];
+}
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+const SERVICE_POLICIES: Record<ServiceName, ServicePolicy> = {
+  clinicaltrials: {
+    label: 'ClinicalTrials.gov',
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 15_000,
+    timeoutMs: 30_000,
+    retryBudgetPerMinute: 10,
+    failureThreshold: 5,
+    cooldownMs: 30_000,
+  },
+  rtrvr: {
+    label: 'rtrvr.ai',
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 15_000,
+    timeoutMs: 30_000,
+    retryBudgetPerMinute: 10,
+    failureThreshold: 5,
+    cooldownMs: 30_000,
+  },
+  llm: {
+    label: 'The AI model',
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 20_000,
+    timeoutMs: 90_000,
+    retryBudgetPerMinute: 10,
+    failureThreshold: 5,
+    cooldownMs: 30_000,
+  },
+  elevenlabs: {
+    label: 'ElevenLabs',
+    maxAttempts: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 10_000,
+    timeoutMs: 60_000,
+    retryBudgetPerMinute: 5,
+    failureThreshold: 3,
+    cooldownMs: 60_000,
+  },
+};
+
+const BUDGET_WINDOW_MS = 60_000;
+
+const circuits = new Map<ServiceName, CircuitState>();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Wait `ms`, rejecting with the signal's reason if it aborts first
+ */
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function getCircuit(service: ServiceName): CircuitState {
+  let circuit = circuits.get(service);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openUntil: 0, probing: false, retryTimestamps: [] };
+    circuits.set(service, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Retry-After as milliseconds; it may be a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build the error for a failed HTTP response, keeping its status and Retry-After
+ */
+export function createServiceError(message: string, response: Response): ServiceError {
+  return Object.assign(new Error(message), {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+}
+
+/**
+ * Exponential backoff with full jitter, or the server's Retry-After when given
+ * Returns undefined when Retry-After asks for a longer wait than maxDelayMs:
+ * retrying sooner would only be refused again.
+ */
+function getRetryDelay(policy: ServicePolicy, attempt: number, error: unknown): number | undefined {
+  const retryAfterMs = (error as ServiceError).retryAfterMs;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  const ceiling = Math.min(policy.baseDelayMs * Math.pow(2, attempt), policy.maxDelayMs);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Record on a thrown error how many tries were made, so reports can tell
+ * whether it was retried
+ */
+function withAttempts(error: unknown, attempts: number): unknown {
+  if (error instanceof Error) {
+    (error as ServiceError).attempts = attempts;
+  }
+  return error;
+}
+
+function takeRetryBudget(circuit: CircuitState, policy: ServicePolicy): boolean {
+  const now = Date.now();
+  circuit.retryTimestamps = circuit.retryTimestamps.filter((t) => now - t < BUDGET_WINDOW_MS);
+
+  if (circuit.retryTimestamps.length >= policy.retryBudgetPerMinute) {
+    return false;
+  }
+  circuit.retryTimestamps.push(now);
+  return true;
+}
+
+// ============================================================================
+// Service Calls
+// ============================================================================
+
+/**
+ * Call a service with its retry policy and circuit breaker
+ * `request` gets a signal that aborts when the try times out or `signal`
+ * aborts; once `signal` aborts no further tries are made. Errors that
+ * retrying cannot fix (see isRetryableError) are thrown straight away and do
+ * not count against the service, and neither does a Retry-After longer than
+ * the policy waits: that error is thrown as is, with its retryAfterMs.
+ */
+export async function callService<T>(
+  service: ServiceName,
+  request: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const policy = SERVICE_POLICIES[service];
+  const circuit = getCircuit(service);
+
+  if (Date.now() < circuit.openUntil || circuit.probing) {
+    throw new Error(`${policy.label} is temporarily unavailable. Please try again later.`);
+  }
+  // After the cooldown one call goes through; the rest wait for its outcome
+  const probing = circuit.consecutiveFailures >= policy.failureThreshold;
+  circuit.probing = probing;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      const timeout = AbortSignal.timeout(policy.timeoutMs);
+
+      try {
+        const result = await request(signal ? AbortSignal.any([signal, timeout]) : timeout);
+        circuit.consecutiveFailures = 0;
+        return result;
+      } catch (error) {
+        if (signal?.aborted || !isRetryableError(error)) {
+          throw withAttempts(error, attempt + 1);
+        }
+
+        const delay = getRetryDelay(policy, attempt, error);
+        if (delay === undefined) {
+          throw withAttempts(error, attempt + 1);
+        }
+
+        const canRetry =
+          !probing && attempt + 1 < policy.maxAttempts && takeRetryBudget(circuit, policy);
+        if (!canRetry) {
+          circuit.consecutiveFailures++;
+          if (circuit.consecutiveFailures >= policy.failureThreshold) {
+            circuit.openUntil = Date.now() + policy.cooldownMs;
+            console.warn(`${policy.label} circuit opened for ${policy.cooldownMs}ms`);
+          }
+          throw withAttempts(error, attempt + 1);
+        }
+
+        console.log(`${policy.label}: retry ${attempt + 1}/${policy.maxAttempts - 1} in ${delay}ms`);
+        await sleep(delay, signal);
+      }
+    }
+  } finally {
+    if (probing) {
+      circuit.probing = false;
+    }
+  }
+}
+
+/**
+ * Forget every service's failures and retry budget (useful for testing)
+ */
+export function resetCircuits(): void {
+  circuits.clear();
+}
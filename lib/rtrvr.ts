@@ -1,21 +1,15 @@
-import { getRtrvrApiKey } from './config';
-import type { EligibilityCriteria, CriteriaCategory } from './schemas';
+import { getServiceEndpoint } from './api';
+import { cacheExtraction, getCachedExtraction } from './extraction-cache';
+import { callService, createServiceError } from './resilience';
+import type { EligibilityCriteria, CriteriaCategory, TrialExtraction } from './schemas';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface RtrvrClient {
-  apiKey: string;
   baseUrl: string;
-}
-
-export interface TrialExtraction {
-  inclusionCriteria: Array<{ criterion: string; category: CriteriaCategory }>;
-  exclusionCriteria: Array<{ criterion: string; category: CriteriaCategory }>;
-  ageRange: { min: number; max: number };
-  acceptsHealthyVolunteers: boolean;
-  rawText: string;
+  headers: Record<string, string>;
 }
 
 interface RtrvrResponse {
@@ -24,26 +18,16 @@ interface RtrvrResponse {
   error?: string;
 }
 
-// ============================================================================
-// Cache
-// ============================================================================
-
-const extractionCache = new Map<string, TrialExtraction>();
-
 // ============================================================================
 // Client Creation
 // ============================================================================
 
 /**
  * Create an rtrvr.ai client for web extraction
+ * Requests go through the API server, which adds the rtrvr.ai key
  */
-export function createRtrvrClient(apiKey?: string): RtrvrClient {
-  const key = apiKey || getRtrvrApiKey();
-
-  return {
-    apiKey: key,
-    baseUrl: 'https://api.rtrvr.ai',
-  };
+export function createRtrvrClient(): RtrvrClient {
+  return getServiceEndpoint('rtrvr');
 }
 
 // ============================================================================
@@ -89,6 +73,11 @@ const ELIGIBILITY_EXTRACTION_SCHEMA = {
       type: 'number',
       description: 'Maximum age in years (use 120 if no upper limit)',
     },
+    sex: {
+      type: 'string',
+      enum: ['ALL', 'FEMALE', 'MALE'],
+      description: 'Sex eligible for the trial (ALL if not restricted)',
+    },
     accepts_healthy_volunteers: {
       type: 'boolean',
       description: 'Whether the trial accepts healthy volunteers',
@@ -118,69 +107,74 @@ export function buildTrialUrl(nctId: string): string {
 
 /**
  * Extract trial eligibility data using rtrvr.ai
+ * `version` is the study's lastUpdatePostDate; the extraction is cached until
+ * it changes. Without one the page is always extracted afresh.
  */
 export async function extractTrialData(
   client: RtrvrClient,
-  nctId: string
+  nctId: string,
+  version?: string,
+  abortSignal?: AbortSignal
 ): Promise<TrialExtraction> {
-  // Check cache first
-  const cached = extractionCache.get(nctId);
-  if (cached) {
-    return cached;
+  if (version) {
+    const cached = await getCachedExtraction(nctId, version);
+    if (cached) {
+      return cached;
+    }
   }
 
   const url = buildTrialUrl(nctId);
 
-  try {
-    const response = await fetch(`${client.baseUrl}/v1/agent`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${client.apiKey}`,
-      },
-      body: JSON.stringify({
-        url,
-        schema: ELIGIBILITY_EXTRACTION_SCHEMA,
-        instructions:
-          'Extract the eligibility criteria from this clinical trial page. ' +
-          'Focus on the Eligibility section. Parse each criterion separately and categorize it. ' +
-          'Categories: diagnosis (cancer type, histology, stage), biomarker (genetic markers, protein expression), ' +
-          'treatment (prior therapy, washout periods), demographics (age, gender), other (performance status, organ function).',
-      }),
-      signal: AbortSignal.timeout(30000), // 30 second timeout
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.');
-      }
-      if (response.status === 404) {
-        throw new Error(`Trial ${nctId} not found.`);
+  const extraction = await callService('rtrvr', async (signal) => {
+    try {
+      const response = await fetch(`${client.baseUrl}/v1/agent`, {
+        method: 'POST',
+        headers: { ...client.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url,
+          schema: ELIGIBILITY_EXTRACTION_SCHEMA,
+          instructions:
+            'Extract the eligibility criteria from this clinical trial page. ' +
+            'Focus on the Eligibility section. Parse each criterion separately and categorize it. ' +
+            'Categories: diagnosis (cancer type, histology, stage), biomarker (genetic markers, protein expression), ' +
+            'treatment (prior therapy, washout periods), demographics (age, gender), other (performance status, organ function).',
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw createServiceError('Rate limit exceeded. Please try again later.', response);
+        }
+        if (response.status === 404) {
+          throw createServiceError(`Trial ${nctId} not found.`, response);
+        }
+        throw createServiceError(`Extraction failed: ${response.statusText}`, response);
       }
-      throw new Error(`Extraction failed: ${response.statusText}`);
-    }
 
-    const result: RtrvrResponse = await response.json();
+      const result: RtrvrResponse = await response.json();
 
-    if (!result.success || !result.data) {
-      throw new Error(result.error || 'Extraction returned no data');
-    }
-
-    const extraction = transformRtrvrResponse(result.data, nctId);
-
-    // Cache the result
-    extractionCache.set(nctId, extraction);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Extraction returned no data');
+      }
 
-    return extraction;
-  } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === 'TimeoutError') {
-        throw new Error(`Extraction timed out for trial ${nctId}`);
+      return transformRtrvrResponse(result.data, nctId);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.name === 'TimeoutError') {
+          throw new Error(`Extraction timed out for trial ${nctId}`);
+        }
+        throw error;
       }
-      throw error;
+      throw new Error(`Unknown error extracting trial ${nctId}`);
     }
-    throw new Error(`Unknown error extracting trial ${nctId}`);
+  }, abortSignal);
+
+  if (version) {
+    await cacheExtraction(nctId, version, extraction);
   }
+
+  return extraction;
 }
 
 // ============================================================================
@@ -207,7 +201,9 @@ function transformRtrvrResponse(
       min: typeof data.minimum_age === 'number' ? data.minimum_age : 0,
       max: typeof data.maximum_age === 'number' ? data.maximum_age : 120,
     },
-    acceptsHealthyVolunteers: data.accepts_healthy_volunteers === true,
+    sex: data.sex === 'FEMALE' || data.sex === 'MALE' ? data.sex : 'ALL',
+    acceptsHealthyVolunteers:
+      typeof data.accepts_healthy_volunteers === 'boolean' ? data.accepts_healthy_volunteers : undefined,
     rawText: typeof data.raw_eligibility_text === 'string' ? data.raw_eligibility_text : '',
   };
 }
@@ -270,24 +266,6 @@ export async function extractMultipleTrials(
   return results;
 }
 
-// ============================================================================
-// Cache Management
-// ============================================================================
-
-/**
- * Clear the extraction cache
- */
-export function clearExtractionCache(): void {
-  extractionCache.clear();
-}
-
-/**
- * Get cache size
- */
-export function getExtractionCacheSize(): number {
-  return extractionCache.size;
-}
-
 // ============================================================================
 // Eligibility Transformation to Schema
 // ============================================================================
@@ -304,6 +282,7 @@ export function toEligibilityCriteria(
     inclusionCriteria: extraction.inclusionCriteria,
     exclusionCriteria: extraction.exclusionCriteria,
     ageRange: extraction.ageRange,
+    sex: extraction.sex,
     acceptsHealthyVolunteers: extraction.acceptsHealthyVolunteers,
     rawText: extraction.rawText,
   };
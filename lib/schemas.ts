@@ -4,19 +4,80 @@ import { z } from 'zod';
 // Patient Profile Schema
 // ============================================================================
 
-export const StageSchema = z.enum(['I', 'II', 'III', 'IV', 'Unknown']);
+// Stage groups with their AJCC sub-stages, in ascending order
+export const CancerStageSchema = z.enum([
+  'I', 'IA', 'IB',
+  'II', 'IIA', 'IIB',
+  'III', 'IIIA', 'IIIB', 'IIIC',
+  'IV', 'IVA', 'IVB',
+]);
+
+export type CancerStage = z.infer<typeof CancerStageSchema>;
+
+export const StageSchema = z.enum([...CancerStageSchema.options, 'Unknown']);
+
+export type Stage = z.infer<typeof StageSchema>;
 
 export const LanguageSchema = z.enum(['en', 'es', 'zh', 'fr', 'de']);
 
+export const SexSchema = z.enum(['female', 'male']);
+
+export type Sex = z.infer<typeof SexSchema>;
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+/**
+ * A single prior or ongoing drug; a start date without an end date means still on it
+ */
+export const TreatmentSchema = z.object({
+  drug: z.string().min(1, 'Drug name is required'),
+  startDate: IsoDateSchema.optional(),
+  endDate: IsoDateSchema.optional(),
+  line: z.number().int().min(1).optional(),
+});
+
+export type Treatment = z.infer<typeof TreatmentSchema>;
+
+export const CoordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export type Coordinates = z.infer<typeof CoordinatesSchema>;
+
+// Country names as ClinicalTrials.gov writes them
+export const DEFAULT_COUNTRY = 'United States';
+
 export const PatientProfileSchema = z.object({
   diagnosis: z.string().min(3, 'Diagnosis must be at least 3 characters'),
+  dateOfBirth: IsoDateSchema.optional(),
+  age: z.number().int().min(0).max(120).optional(),
+  sex: SexSchema.optional(),
   stage: StageSchema,
   biomarkers: z.array(z.string()).default([]),
   ecogScore: z.number().int().min(0).max(4),
   previousTreatments: z.array(z.string()).default([]),
-  zipcode: z.string().regex(/^\d{5}$/, 'Zipcode must be 5 digits'),
+  treatments: z.array(TreatmentSchema).default([]),
+  country: z.string().min(2).default(DEFAULT_COUNTRY),
+  // A ZIP code in the United States, otherwise the local postal code
+  zipcode: z.string().trim().max(10).default(''),
+  // Where distances are measured from when the postal code cannot be placed
+  coordinates: CoordinatesSchema.optional(),
   travelRadiusMiles: z.number().min(10).max(500).default(50),
   languagePreference: LanguageSchema.default('en'),
+}).superRefine((profile, ctx) => {
+  if (profile.coordinates) {
+    return;
+  }
+  if (profile.country === DEFAULT_COUNTRY && !/^\d{5}$/.test(profile.zipcode)) {
+    ctx.addIssue({ code: 'custom', path: ['zipcode'], message: 'Zipcode must be 5 digits' });
+  } else if (!profile.zipcode) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['zipcode'],
+      message: 'A postal code or coordinates are required',
+    });
+  }
 });
 
 export type PatientProfile = z.infer<typeof PatientProfileSchema>;
@@ -27,12 +88,42 @@ export type PatientProfile = z.infer<typeof PatientProfileSchema>;
 
 export const PhaseSchema = z.enum(['Phase 1', 'Phase 2', 'Phase 3', 'Phase 4', 'N/A']);
 
+export const VisitScheduleSchema = z.object({
+  // Days between site visits
+  intervalDays: z.number().positive(),
+  visitsPerMonth: z.number().nonnegative(),
+  // 'protocol' when read from the arm or intervention descriptions
+  source: z.enum(['protocol', 'assumed']),
+  // The protocol wording the schedule was read from
+  basis: z.string().optional(),
+});
+
+export type VisitSchedule = z.infer<typeof VisitScheduleSchema>;
+
+export const TravelBurdenSchema = z.object({
+  roadMiles: z.number().nonnegative(),
+  driveHours: z.number().nonnegative(),
+  likelyFlight: z.boolean(),
+  // Door-to-door hours there and back, by road or by air
+  roundTripHours: z.number().nonnegative(),
+  visitsPerMonth: z.number().nonnegative(),
+  // Round trips per month times their length; what trials are compared on
+  monthlyHours: z.number().nonnegative(),
+});
+
+export type TravelBurden = z.infer<typeof TravelBurdenSchema>;
+
 export const LocationSchema = z.object({
   facility: z.string(),
   city: z.string(),
   state: z.string(),
   zipcode: z.string(),
+  // Sites recorded before international support are all in the United States
+  country: z.string().default(DEFAULT_COUNTRY),
+  // As geocoded by ClinicalTrials.gov
+  coordinates: CoordinatesSchema.optional(),
   distance: z.number().optional(),
+  travelBurden: TravelBurdenSchema.optional(),
 });
 
 export type Location = z.infer<typeof LocationSchema>;
@@ -46,6 +137,7 @@ export const TrialSchema = z.object({
   conditions: z.array(z.string()),
   interventions: z.array(z.string()),
   locations: z.array(LocationSchema),
+  visitSchedule: VisitScheduleSchema.optional(),
   url: z.string().url(),
 });
 
@@ -65,31 +157,223 @@ export const CriteriaCategorySchema = z.enum([
 
 export type CriteriaCategory = z.infer<typeof CriteriaCategorySchema>;
 
+export const ComparatorSchema = z.enum(['<', '<=', '>', '>=', '=']);
+
+export type Comparator = z.infer<typeof ComparatorSchema>;
+
+export const PerformanceStatusConstraintSchema = z.object({
+  type: z.literal('performance_status'),
+  scale: z.enum(['ecog', 'karnofsky']),
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export const LabAnalyteSchema = z.enum([
+  'anc',
+  'platelets',
+  'hemoglobin',
+  'creatinine_clearance',
+  'creatinine',
+  'bilirubin',
+  'ast',
+  'alt',
+]);
+
+export type LabAnalyte = z.infer<typeof LabAnalyteSchema>;
+
+export const LabConstraintSchema = z.object({
+  type: z.literal('lab'),
+  analyte: LabAnalyteSchema,
+  comparator: ComparatorSchema,
+  value: z.number(),
+  unit: z.string(),
+});
+
+export const WashoutConstraintSchema = z.object({
+  type: z.literal('washout'),
+  days: z.number().int().positive(),
+  appliesTo: z.string(),
+  // 'within': the criterion is about having the therapy in the last N days
+  // ("Chemotherapy within 14 days"); 'since': about being off it at least that
+  // long ("4 weeks since chemotherapy")
+  window: z.enum(['within', 'since']).default('within'),
+});
+
+export const PriorLinesConstraintSchema = z.object({
+  type: z.literal('prior_lines'),
+  min: z.number().int().min(0).optional(),
+  max: z.number().int().min(0).optional(),
+});
+
+// Restates the trial's age range in a criterion, so the age check can be
+// attributed to it
+export const AgeConstraintSchema = z.object({
+  type: z.literal('age'),
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export const BiomarkerStatusSchema = z.enum(['positive', 'negative']);
+
+export const BiomarkerExpressionSchema = z.object({
+  comparator: ComparatorSchema,
+  value: z.number(),
+  unit: z.string(),
+});
+
+/**
+ * A biomarker resolved to canonical gene and alteration names (see lib/biomarkers.ts)
+ */
+export const BiomarkerSchema = z.object({
+  gene: z.string(),
+  alteration: z.string().optional(),
+  status: BiomarkerStatusSchema,
+  expression: BiomarkerExpressionSchema.optional(),
+});
+
+export type BiomarkerStatus = z.infer<typeof BiomarkerStatusSchema>;
+export type BiomarkerExpression = z.infer<typeof BiomarkerExpressionSchema>;
+export type Biomarker = z.infer<typeof BiomarkerSchema>;
+
+export const BiomarkerConstraintSchema = BiomarkerSchema.extend({
+  type: z.literal('biomarker'),
+});
+
+export const StageConstraintSchema = z.object({
+  type: z.literal('stage'),
+  stages: z.array(CancerStageSchema).min(1),
+  // 'descriptor' when inferred from wording like "advanced" or "metastatic"
+  source: z.enum(['explicit', 'descriptor']),
+});
+
+export const PriorTreatmentConstraintSchema = z.object({
+  type: z.literal('prior_treatment'),
+  drugClasses: z.array(z.string()),
+  drugs: z.array(z.string()),
+  // "No prior EGFR TKI" in the inclusion list reads as an exclusion
+  negated: z.boolean(),
+});
+
+export const CriterionConstraintSchema = z.discriminatedUnion('type', [
+  PerformanceStatusConstraintSchema,
+  LabConstraintSchema,
+  WashoutConstraintSchema,
+  PriorLinesConstraintSchema,
+  AgeConstraintSchema,
+  StageConstraintSchema,
+  BiomarkerConstraintSchema,
+  PriorTreatmentConstraintSchema,
+]);
+
+export type CriterionConstraint = z.infer<typeof CriterionConstraintSchema>;
+export type PerformanceStatusConstraint = z.infer<typeof PerformanceStatusConstraintSchema>;
+export type LabConstraint = z.infer<typeof LabConstraintSchema>;
+export type WashoutConstraint = z.infer<typeof WashoutConstraintSchema>;
+export type PriorLinesConstraint = z.infer<typeof PriorLinesConstraintSchema>;
+export type AgeConstraint = z.infer<typeof AgeConstraintSchema>;
+export type StageConstraint = z.infer<typeof StageConstraintSchema>;
+export type BiomarkerConstraint = z.infer<typeof BiomarkerConstraintSchema>;
+export type PriorTreatmentConstraint = z.infer<typeof PriorTreatmentConstraintSchema>;
+
 export const CriterionSchema = z.object({
   criterion: z.string(),
   category: CriteriaCategorySchema,
+  constraints: z.array(CriterionConstraintSchema).optional(),
 });
 
 export type Criterion = z.infer<typeof CriterionSchema>;
 
+// In years; limits given in months or weeks are fractions
 export const AgeRangeSchema = z.object({
-  min: z.number().int().min(0).default(0),
-  max: z.number().int().max(120).default(120),
+  min: z.number().min(0).default(0),
+  max: z.number().max(120).default(120),
 });
 
 export type AgeRange = z.infer<typeof AgeRangeSchema>;
 
+export const EligibleSexSchema = z.enum(['ALL', 'FEMALE', 'MALE']);
+
+export type EligibleSex = z.infer<typeof EligibleSexSchema>;
+
 export const EligibilitySchema = z.object({
   nctId: z.string(),
   inclusionCriteria: z.array(CriterionSchema),
   exclusionCriteria: z.array(CriterionSchema),
   ageRange: AgeRangeSchema,
-  acceptsHealthyVolunteers: z.boolean().default(false),
+  sex: EligibleSexSchema.default('ALL'),
+  // Unset when the trial does not say whether it takes healthy volunteers
+  acceptsHealthyVolunteers: z.boolean().optional(),
   rawText: z.string().optional(),
 });
 
 export type EligibilityCriteria = z.infer<typeof EligibilitySchema>;
 
+// Eligibility as rtrvr.ai extracts it from the trial page
+export const TrialExtractionSchema = z.object({
+  inclusionCriteria: z.array(CriterionSchema.pick({ criterion: true, category: true })),
+  exclusionCriteria: z.array(CriterionSchema.pick({ criterion: true, category: true })),
+  ageRange: z.object({ min: z.number(), max: z.number() }),
+  sex: EligibleSexSchema,
+  acceptsHealthyVolunteers: z.boolean().optional(),
+  rawText: z.string(),
+});
+
+export type TrialExtraction = z.infer<typeof TrialExtractionSchema>;
+
+/**
+ * An extraction kept until the study record it was made from changes
+ */
+export const CachedExtractionSchema = z.object({
+  nctId: z.string(),
+  // The study's lastUpdatePostDate when it was extracted
+  version: z.string(),
+  extraction: TrialExtractionSchema,
+  extractedAt: z.string().datetime(),
+});
+
+export type CachedExtraction = z.infer<typeof CachedExtractionSchema>;
+
+// ============================================================================
+// Scoring Profile Schema
+// ============================================================================
+
+/**
+ * Weights, penalties and category cutoffs used to turn matched factors into a
+ * score. Profiles are immutable once released: changing any number means a
+ * new id, so stored scores can always be traced back to how they were computed.
+ */
+export const ScoringProfileSchema = z.object({
+  // Versioned id, e.g. "general-v1"
+  id: z.string(),
+  description: z.string(),
+  // Diagnoses this profile is selected for; empty for the general profile
+  diseaseKeywords: z.array(z.string()),
+  weights: z.object({
+    diagnosis: z.number().nonnegative(),
+    biomarker: z.number().nonnegative(),
+    stage: z.number().nonnegative(),
+    ecog: z.number().nonnegative(),
+    treatment: z.number().nonnegative(),
+    demographics: z.number().nonnegative(),
+    other: z.number().nonnegative(),
+  }),
+  // Points taken off for each factor that needs confirmation
+  uncertaintyPenalty: z.number().nonnegative(),
+  // Score ceiling once anything blocks, less blockingPenalty per blocking factor
+  blockedScore: z.number().min(0).max(100),
+  blockingPenalty: z.number().nonnegative(),
+  // Minimum score for each category; anything lower is not_eligible
+  thresholds: z.object({
+    strong_match: z.number().min(0).max(100),
+    possible_match: z.number().min(0).max(100),
+    future_potential: z.number().min(0).max(100),
+  }),
+});
+
+export type ScoringProfile = z.infer<typeof ScoringProfileSchema>;
+
+export type ScoringFactor = keyof ScoringProfile['weights'];
+
 // ============================================================================
 // Match Result Schema
 // ============================================================================
@@ -117,6 +401,50 @@ export const BlockingFactorSchema = z.object({
 
 export type BlockingFactor = z.infer<typeof BlockingFactorSchema>;
 
+export const CriterionVerdictSchema = z.enum(['met', 'not_met', 'unknown']);
+
+export type CriterionVerdict = z.infer<typeof CriterionVerdictSchema>;
+
+/**
+ * How one trial criterion was evaluated. For exclusion criteria, 'met' means
+ * the exclusion applies to the patient.
+ */
+export const CriterionTraceSchema = z.object({
+  criterion: z.string(),
+  criterionType: z.enum(['inclusion', 'exclusion']),
+  category: CriteriaCategorySchema,
+  verdict: CriterionVerdictSchema,
+  // PatientProfile field the criterion was compared with, if any
+  profileField: z.string().nullable(),
+  decidedBy: z.object({
+    kind: z.enum(['rule', 'model', 'none']),
+    id: z.string(),
+  }),
+  reason: z.string().optional(),
+});
+
+export type CriterionTrace = z.infer<typeof CriterionTraceSchema>;
+
+export const MatchMethodSchema = z.enum(['rules', 'model', 'hybrid']);
+
+export type MatchMethod = z.infer<typeof MatchMethodSchema>;
+
+/**
+ * A point where rule-based and model-based matching reached different
+ * conclusions, and which side the final result went with
+ */
+export const MatchDisagreementSchema = z.object({
+  // 'criterion' compares one criterion's verdicts, 'overall' the categories
+  kind: z.enum(['criterion', 'overall']),
+  subject: z.string(),
+  ruleVerdict: z.string(),
+  modelVerdict: z.string(),
+  resolution: z.enum(['rule', 'model', 'combined', 'needs_review']),
+  explanation: z.string(),
+});
+
+export type MatchDisagreement = z.infer<typeof MatchDisagreementSchema>;
+
 export const MatchResultSchema = z.object({
   nctId: z.string(),
   score: z.number().min(0).max(100),
@@ -125,6 +453,11 @@ export const MatchResultSchema = z.object({
   blockingFactors: z.array(BlockingFactorSchema),
   uncertainFactors: z.array(z.string()),
   summary: z.string(),
+  criteriaTrace: z.array(CriterionTraceSchema).default([]),
+  // Scoring profile the score and category were computed with
+  scoringProfileId: z.string(),
+  method: MatchMethodSchema.default('rules'),
+  disagreements: z.array(MatchDisagreementSchema).default([]),
 });
 
 export type MatchResult = z.infer<typeof MatchResultSchema>;
@@ -135,7 +468,8 @@ export type MatchResult = z.infer<typeof MatchResultSchema>;
 
 export const VoiceScriptSchema = z.object({
   text: z.string(),
-  audioUrl: z.string().url(),
+  // Empty when no audio was synthesized
+  audioUrl: z.union([z.string().url(), z.literal('')]),
   duration: z.number().positive(),
   language: z.string(),
 });
@@ -165,23 +499,124 @@ export const PipelineStepSchema = z.object({
 
 export type PipelineStep = z.infer<typeof PipelineStepSchema>;
 
+export const PipelineErrorKindSchema = z.enum([
+  'rate_limit',
+  'timeout',
+  'network',
+  'not_found',
+  'parse',
+  'validation',
+  // The service's circuit is open or it is not configured
+  'unavailable',
+  'unknown',
+]);
+
+export type PipelineErrorKind = z.infer<typeof PipelineErrorKindSchema>;
+
+/**
+ * A failure the pipeline recovered from by leaving a trial (or the voice
+ * summary) out of the result
+ */
+export const PipelineErrorSchema = z.object({
+  stage: PipelineStepSchema.shape.id,
+  // Absent for failures not tied to one trial
+  nctId: z.string().optional(),
+  kind: PipelineErrorKindSchema,
+  message: z.string(),
+  // Whether the step was retried before giving up
+  retried: z.boolean(),
+});
+
+export type PipelineError = z.infer<typeof PipelineErrorSchema>;
+
 export const PipelineResultSchema = z.object({
   trials: z.array(TrialSchema),
   matchResults: z.array(MatchResultSchema),
   voiceScript: VoiceScriptSchema.optional(),
   completedSteps: z.array(PipelineStepSchema),
+  errors: z.array(PipelineErrorSchema).default([]),
   duration: z.number(),
 });
 
 export type PipelineResult = z.infer<typeof PipelineResultSchema>;
 
+/**
+ * What runPipeline reports as it goes; the API server streams these to
+ * clients as Server-Sent Events
+ */
+export const PipelineEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('step_started'), step: PipelineStepSchema }),
+  z.object({ type: z.literal('step_progress'), step: PipelineStepSchema }),
+  // The step's final status: complete, or error when the step gave up
+  z.object({ type: z.literal('step_complete'), step: PipelineStepSchema }),
+  z.object({ type: z.literal('trial_discovered'), trial: TrialSchema }),
+  z.object({
+    type: z.literal('criteria_extracted'),
+    nctId: z.string(),
+    criteria: EligibilitySchema,
+  }),
+  z.object({ type: z.literal('match_scored'), matchResult: MatchResultSchema }),
+  z.object({ type: z.literal('audio_ready'), voiceScript: VoiceScriptSchema }),
+  z.object({ type: z.literal('log'), message: z.string(), timestamp: z.string().datetime() }),
+  // Exactly one of these ends every run
+  z.object({ type: z.literal('pipeline_complete'), result: PipelineResultSchema }),
+  z.object({ type: z.literal('pipeline_error'), message: z.string() }),
+]);
+
+export type PipelineEvent = z.infer<typeof PipelineEventSchema>;
+
+/**
+ * A run's intermediate results, saved as it goes so a reloaded or retried run
+ * only redoes the trials it had not finished
+ */
+export const PipelineCheckpointSchema = z.object({
+  runId: z.string(),
+  patientProfile: PatientProfileSchema,
+  scout: z
+    .object({
+      trials: z.array(TrialSchema),
+      totalFound: z.number(),
+    })
+    .optional(),
+  // Keyed by NCT ID
+  eligibility: z.record(EligibilitySchema),
+  matches: z.record(MatchResultSchema),
+  updatedAt: z.string().datetime(),
+});
+
+export type PipelineCheckpoint = z.infer<typeof PipelineCheckpointSchema>;
+
+// A pipeline run started through the API server
+export const PipelineJobStatusSchema = z.enum([
+  'queued',
+  'running',
+  'complete',
+  'error',
+  'cancelled',
+]);
+
+export type PipelineJobStatus = z.infer<typeof PipelineJobStatusSchema>;
+
+export const PipelineJobSchema = z.object({
+  id: z.string(),
+  status: PipelineJobStatusSchema,
+  steps: z.array(PipelineStepSchema),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  error: z.string().optional(),
+});
+
+export type PipelineJob = z.infer<typeof PipelineJobSchema>;
+
 // ============================================================================
 // Agent Input/Output Types
 // ============================================================================
 
 export const ScoutInputSchema = z.object({
   diagnosis: z.string(),
+  country: z.string().default(DEFAULT_COUNTRY),
   zipcode: z.string(),
+  coordinates: CoordinatesSchema.optional(),
   travelRadiusMiles: z.number(),
   phase: z.array(z.string()).optional(),
 });
@@ -207,10 +642,29 @@ export const MatcherInputSchema = z.object({
   patientProfile: PatientProfileSchema,
   eligibilityCriteria: EligibilitySchema,
   nctId: z.string(),
+  // Defaults to the profile for the patient's diagnosis
+  scoringProfileId: z.string().optional(),
 });
 
 export type MatcherInput = z.infer<typeof MatcherInputSchema>;
 
+// What the clinical matcher model returns; the matcher adds the scoring
+// profile, method and trace provenance
+export const MatcherModelOutputSchema = MatchResultSchema.pick({
+  score: true,
+  category: true,
+  matchingFactors: true,
+  blockingFactors: true,
+  uncertainFactors: true,
+  summary: true,
+}).extend({
+  criteriaTrace: z
+    .array(CriterionTraceSchema.omit({ category: true, decidedBy: true }))
+    .optional(),
+});
+
+export type MatcherModelOutput = z.infer<typeof MatcherModelOutputSchema>;
+
 export const AdvocateInputSchema = z.object({
   matchResults: z.array(MatchResultSchema),
   patientProfile: PatientProfileSchema,
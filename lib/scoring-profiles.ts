@@ -0,0 +1,89 @@
+import type { ScoringProfile } from './schemas';
+
+// ============================================================================
+// Released Profiles
+// ============================================================================
+
+// Never edit a released profile; add a new version instead and keep the old
+// one here so earlier results stay reproducible.
+
+const GENERAL_V1: ScoringProfile = {
+  id: 'general-v1',
+  description: 'Default weights for any diagnosis',
+  diseaseKeywords: [],
+  weights: {
+    diagnosis: 10,
+    biomarker: 9,
+    stage: 8,
+    ecog: 7,
+    treatment: 6,
+    demographics: 5,
+    other: 3,
+  },
+  uncertaintyPenalty: 5,
+  blockedScore: 20,
+  blockingPenalty: 10,
+  thresholds: {
+    strong_match: 75,
+    possible_match: 50,
+    future_potential: 25,
+  },
+};
+
+// Thoracic trials are largely biomarker- and line-of-therapy-driven
+const THORACIC_V1: ScoringProfile = {
+  id: 'thoracic-v1',
+  description: 'Lung cancer and other thoracic malignancies',
+  diseaseKeywords: ['lung', 'nsclc', 'sclc', 'mesothelioma', 'thymoma', 'thymic'],
+  weights: {
+    diagnosis: 10,
+    biomarker: 10,
+    stage: 8,
+    ecog: 7,
+    treatment: 8,
+    demographics: 4,
+    other: 3,
+  },
+  uncertaintyPenalty: 5,
+  blockedScore: 20,
+  blockingPenalty: 10,
+  thresholds: {
+    strong_match: 75,
+    possible_match: 50,
+    future_potential: 25,
+  },
+};
+
+const SCORING_PROFILES: ScoringProfile[] = [GENERAL_V1, THORACIC_V1];
+
+export const DEFAULT_SCORING_PROFILE_ID = GENERAL_V1.id;
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+export function listScoringProfiles(): ScoringProfile[] {
+  return [...SCORING_PROFILES];
+}
+
+/**
+ * Look up a profile by its versioned id
+ */
+export function getScoringProfile(id: string): ScoringProfile {
+  const profile = SCORING_PROFILES.find((p) => p.id === id);
+  if (!profile) {
+    throw new Error(`Unknown scoring profile: ${id}`);
+  }
+  return profile;
+}
+
+/**
+ * Pick the profile for a diagnosis, falling back to the general profile
+ */
+export function selectScoringProfile(diagnosis: string): ScoringProfile {
+  const text = diagnosis.toLowerCase();
+  const match = SCORING_PROFILES.find((p) =>
+    p.diseaseKeywords.some((keyword) => new RegExp(`\\b${keyword}\\b`).test(text))
+  );
+  return match ?? getScoringProfile(DEFAULT_SCORING_PROFILE_ID);
+}
@@ -1,30 +1,52 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { getToolhouseApiKey } from './config';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { createLLMProvider } from './llm-provider';
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+import { callService } from './resilience';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface ToolhouseClient {
-  apiKey: string;
-  anthropic: Anthropic;
+  provider: LLMProvider;
 }
 
-export interface AgentResult<T> {
-  output: T;
-  success: boolean;
-  error?: string;
-  metadata: {
-    duration: number;
-    toolCalls: string[];
-    model: string;
-  };
+export type AgentErrorCode =
+  | 'unknown_agent'
+  | 'request_failed'
+  | 'no_structured_output'
+  | 'validation_failed';
+
+export interface AgentError {
+  code: AgentErrorCode;
+  message: string;
+  // Schema issues from the last attempt, for validation_failed
+  issues?: string[];
+}
+
+export interface AgentMetadata {
+  duration: number;
+  toolCalls: string[];
+  model: string;
+  // Model calls made, including re-prompts after failed validation
+  attempts: number;
+}
+
+export type AgentResult<T> =
+  | { success: true; output: T; metadata: AgentMetadata }
+  | { success: false; error: AgentError; metadata: AgentMetadata };
+
+// An output the model submitted that failed schema validation
+export interface RejectedOutput {
+  toolCallId: string;
+  output: unknown;
 }
 
 export interface AgentOptions {
-  maxRetries?: number;
-  retryDelayMs?: number;
-  timeoutMs?: number;
+  // Re-prompts allowed after the output fails schema validation
+  maxRepairAttempts?: number;
+  signal?: AbortSignal;
 }
 
 // ============================================================================
@@ -45,7 +67,9 @@ Return structured eligibility data that can be used for patient matching.`,
   'clinical-matcher': `You are a Clinical Matching Specialist agent. Your task is to compare patient profiles against trial eligibility criteria.
 Evaluate hard exclusions first, then assess inclusion alignment.
 Calculate a match score (0-100) and categorize as: strong_match (75-100), possible_match (50-74), future_potential (25-49), or not_eligible (0-24).
-Provide detailed factor breakdown and a plain-language summary at 8th-grade reading level.`,
+Provide detailed factor breakdown and a plain-language summary at 8th-grade reading level.
+Also return criteriaTrace: one entry per inclusion and exclusion criterion with criterion (verbatim), criterionType (inclusion or exclusion),
+category, verdict (met, not_met or unknown; for exclusions, met means the exclusion applies), profileField (the patient profile field used, or null) and reason.`,
 
   'patient-advocate': `You are a Patient Advocate agent. Your task is to generate compassionate, clear voice scripts for patients.
 Write at an 8th-grade reading level with a warm, encouraging tone.
@@ -58,204 +82,236 @@ The script should be 150-200 words (60-90 seconds when spoken).`,
 // ============================================================================
 
 /**
- * Create a Toolhouse client with Anthropic as the LLM provider
+ * Create a Toolhouse client; the LLM provider defaults to the configured one
  */
-export function createToolhouseClient(apiKey?: string): ToolhouseClient {
-  const key = apiKey || getToolhouseApiKey();
-
-  const anthropic = new Anthropic({
-    apiKey: key,
-    dangerouslyAllowBrowser: true,
-  });
-
-  return {
-    apiKey: key,
-    anthropic,
-  };
+export function createToolhouseClient(provider: LLMProvider = createLLMProvider()): ToolhouseClient {
+  return { provider };
 }
 
 // ============================================================================
-// Retry Logic
+// Agent Execution
 // ============================================================================
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// Agents return their result by calling this tool, so the output always
+// arrives as JSON shaped by the caller's schema
+const OUTPUT_TOOL_NAME = 'submit_output';
+
+const AGENT_MAX_TOKENS = 4096;
+
+function toInputSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+
+  if (jsonSchema.type !== 'object') {
+    throw new Error('Agent output schema must be an object schema');
+  }
+  return jsonSchema;
 }
 
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  baseDelayMs: number = 1000
-): Promise<T> {
-  let lastError: Error | undefined;
+// Agent ids can come from API clients; "constructor" and the like are not agents
+function lookupAgent<T>(record: Record<string, T>, agentId: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, agentId) ? record[agentId] : undefined;
+}
 
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
 
-      // Check if error is retryable
-      const isRateLimited = lastError.message.includes('rate limit');
-      const isTimeout = lastError.message.includes('timeout');
-      const isRetryable = isRateLimited || isTimeout;
+/**
+ * The model request for an agent attempt
+ * Outputs rejected on earlier attempts are replayed with the issues found, so
+ * the model can correct them. The API server rebuilds proxied requests with
+ * this, so clients only choose the agent input and the rejected outputs.
+ */
+export function buildAgentRequest(
+  agentId: string,
+  input: unknown,
+  schema: z.ZodTypeAny,
+  rejected: RejectedOutput[] = []
+): LLMRequest {
+  const system = lookupAgent(AGENT_SYSTEM_PROMPTS, agentId);
+  if (!system) {
+    throw new Error(`Unknown agent: ${agentId}`);
+  }
 
-      if (!isRetryable || attempt === maxRetries - 1) {
-        throw lastError;
+  const messages: LLMMessage[] = [{ role: 'user', content: JSON.stringify(input, null, 2) }];
+  for (const { toolCallId, output } of rejected) {
+    const parsed = schema.safeParse(output);
+    const issues = parsed.success ? [] : formatIssues(parsed.error);
+    messages.push(
+      { role: 'assistant', toolCalls: [{ id: toolCallId, name: OUTPUT_TOOL_NAME, input: output }] },
+      {
+        role: 'tool_result',
+        toolCallId,
+        isError: true,
+        content:
+          `The output does not match the required schema:\n${issues.join('\n')}\n` +
+          `Call ${OUTPUT_TOOL_NAME} again with corrected output.`,
       }
-
-      // Exponential backoff
-      const delay = baseDelayMs * Math.pow(2, attempt);
-      console.log(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`);
-      await sleep(delay);
-    }
+    );
   }
 
-  throw lastError;
+  return {
+    agentId,
+    input,
+    system,
+    messages,
+    tool: {
+      name: OUTPUT_TOOL_NAME,
+      description: 'Submit your final result. Call this exactly once with the complete output.',
+      inputSchema: toInputSchema(schema),
+    },
+    maxTokens: AGENT_MAX_TOKENS,
+  };
 }
 
-// ============================================================================
-// Agent Execution
-// ============================================================================
-
 /**
- * Run an agent with the specified input
+ * Run an agent and validate its output against a schema
+ * Output that fails validation is sent back to the model with the issues
+ * found, up to maxRepairAttempts times.
  */
-export async function runAgent<T>(
+export async function runAgent<S extends z.ZodTypeAny>(
   client: ToolhouseClient,
   agentId: string,
   input: unknown,
+  schema: S,
   options: AgentOptions = {}
-): Promise<AgentResult<T>> {
-  const { maxRetries = 3, retryDelayMs = 1000 } = options;
+): Promise<AgentResult<z.output<S>>> {
+  const { maxRepairAttempts = 2, signal: abortSignal } = options;
   const startTime = Date.now();
   const toolCalls: string[] = [];
+  let attempts = 0;
+  let model = client.provider.model;
+
+  const metadata = (): AgentMetadata => ({
+    duration: Date.now() - startTime,
+    toolCalls,
+    model,
+    attempts,
+  });
 
-  const systemPrompt = AGENT_SYSTEM_PROMPTS[agentId];
-  if (!systemPrompt) {
-    return {
-      output: null as T,
-      success: false,
-      error: `Unknown agent: ${agentId}`,
-      metadata: {
-        duration: Date.now() - startTime,
-        toolCalls: [],
-        model: 'unknown',
-      },
-    };
+  const fail = (error: AgentError): AgentResult<z.output<S>> => {
+    console.error(`Agent ${agentId} failed:`, error.message, error.issues ?? '');
+    return { success: false, error, metadata: metadata() };
+  };
+
+  if (!lookupAgent(AGENT_SYSTEM_PROMPTS, agentId)) {
+    return fail({ code: 'unknown_agent', message: `Unknown agent: ${agentId}` });
   }
 
-  try {
-    const result = await withRetry(
-      async () => {
-        const response = await client.anthropic.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 4096,
-          system: systemPrompt,
-          messages: [
-            {
-              role: 'user',
-              content: JSON.stringify(input, null, 2),
-            },
-          ],
-        });
-
-        // Extract text content from response
-        const textContent = response.content.find((block) => block.type === 'text');
-        if (!textContent || textContent.type !== 'text') {
-          throw new Error('No text response from agent');
-        }
-
-        // Track tool usage
-        response.content.forEach((block) => {
-          if (block.type === 'tool_use') {
-            toolCalls.push(block.name);
-          }
-        });
-
-        // Parse JSON response
-        const text = textContent.text;
-        const jsonMatch = text.match(/```json\n?([\s\S]*?)\n?```/) ||
-                          text.match(/\{[\s\S]*\}/);
-
-        if (jsonMatch) {
-          const jsonStr = jsonMatch[1] || jsonMatch[0];
-          return JSON.parse(jsonStr) as T;
-        }
-
-        // If no JSON found, return text as-is (for advocate agent)
-        return { text } as T;
-      },
-      maxRetries,
-      retryDelayMs
-    );
+  const rejected: RejectedOutput[] = [];
+  let issues: string[] = [];
+
+  while (attempts <= maxRepairAttempts) {
+    attempts++;
+
+    let response: LLMResponse;
+    try {
+      response = await callService('llm', (signal) =>
+        client.provider.complete(buildAgentRequest(agentId, input, schema, rejected), signal),
+        abortSignal
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return fail({ code: 'request_failed', message });
+    }
+
+    model = response.model;
+
+    // Track tool usage
+    response.toolCalls.forEach((call) => toolCalls.push(call.name));
+
+    const toolUse = response.toolCalls.find((call) => call.name === OUTPUT_TOOL_NAME);
+    if (!toolUse) {
+      return fail({
+        code: 'no_structured_output',
+        message: `Agent did not call ${OUTPUT_TOOL_NAME} (stop reason: ${response.stopReason})`,
+      });
+    }
+
+    const parsed = schema.safeParse(toolUse.input);
+    if (parsed.success) {
+      return { success: true, output: parsed.data, metadata: metadata() };
+    }
+
+    issues = formatIssues(parsed.error);
+    console.warn(`Agent ${agentId} output failed validation (attempt ${attempts}):`, issues);
 
-    return {
-      output: result,
-      success: true,
-      metadata: {
-        duration: Date.now() - startTime,
-        toolCalls,
-        model: 'claude-sonnet-4-20250514',
-      },
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-
-    console.error(`Agent ${agentId} failed:`, errorMessage);
-
-    return {
-      output: null as T,
-      success: false,
-      error: errorMessage,
-      metadata: {
-        duration: Date.now() - startTime,
-        toolCalls,
-        model: 'claude-sonnet-4-20250514',
-      },
-    };
+    rejected.push({ toolCallId: toolUse.id, output: toolUse.input });
   }
+
+  return fail({
+    code: 'validation_failed',
+    message: `Output failed validation after ${attempts} attempts`,
+    issues,
+  });
 }
 
 // ============================================================================
 // Specialized Agent Runners
 // ============================================================================
 
+import {
+  TrialDiscoveryOutputSchema,
+  EligibilitySchema,
+  MatcherModelOutputSchema,
+  VoiceScriptSchema,
+} from './schemas';
 import type {
   ScoutInput,
   TrialDiscoveryOutput,
   ExtractorInput,
   EligibilityCriteria,
   MatcherInput,
-  MatchResult,
+  MatcherModelOutput,
   AdvocateInput,
   VoiceScript,
 } from './schemas';
 
+// The advocate writes the script; audio is produced separately
+const AdvocateScriptSchema = VoiceScriptSchema.pick({ text: true, language: true });
+
+// What each agent returns; the API server builds output tools from these
+// instead of taking a schema from the client
+export const AGENT_OUTPUT_SCHEMAS = {
+  'clinical-trial-scout': TrialDiscoveryOutputSchema,
+  'eligibility-extractor': EligibilitySchema,
+  'clinical-matcher': MatcherModelOutputSchema,
+  'patient-advocate': AdvocateScriptSchema,
+} satisfies Record<string, z.ZodTypeAny>;
+
+export function getAgentOutputSchema(agentId: string): z.ZodTypeAny | null {
+  return lookupAgent<z.ZodTypeAny>(AGENT_OUTPUT_SCHEMAS, agentId) ?? null;
+}
+
 export async function runScoutAgentWithClient(
   client: ToolhouseClient,
-  input: ScoutInput
+  input: ScoutInput,
+  options: AgentOptions = {}
 ): Promise<AgentResult<TrialDiscoveryOutput>> {
-  return runAgent<TrialDiscoveryOutput>(client, 'clinical-trial-scout', input);
+  return runAgent(client, 'clinical-trial-scout', input, AGENT_OUTPUT_SCHEMAS['clinical-trial-scout'], options);
 }
 
 export async function runExtractorAgentWithClient(
   client: ToolhouseClient,
-  input: ExtractorInput
+  input: ExtractorInput,
+  options: AgentOptions = {}
 ): Promise<AgentResult<EligibilityCriteria>> {
-  return runAgent<EligibilityCriteria>(client, 'eligibility-extractor', input);
+  return runAgent(client, 'eligibility-extractor', input, AGENT_OUTPUT_SCHEMAS['eligibility-extractor'], options);
 }
 
 export async function runMatcherAgentWithClient(
   client: ToolhouseClient,
-  input: MatcherInput
-): Promise<AgentResult<MatchResult>> {
-  return runAgent<MatchResult>(client, 'clinical-matcher', input);
+  input: MatcherInput,
+  options: AgentOptions = {}
+): Promise<AgentResult<MatcherModelOutput>> {
+  return runAgent(client, 'clinical-matcher', input, AGENT_OUTPUT_SCHEMAS['clinical-matcher'], options);
 }
 
 export async function runAdvocateAgentWithClient(
   client: ToolhouseClient,
-  input: AdvocateInput
-): Promise<AgentResult<VoiceScript>> {
-  return runAgent<VoiceScript>(client, 'patient-advocate', input);
+  input: AdvocateInput,
+  options: AgentOptions = {}
+): Promise<AgentResult<Pick<VoiceScript, 'text' | 'language'>>> {
+  return runAgent(client, 'patient-advocate', input, AGENT_OUTPUT_SCHEMAS['patient-advocate'], options);
 }
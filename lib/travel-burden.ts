@@ -0,0 +1,195 @@
+import type { Location, Trial, TravelBurden, VisitSchedule } from './schemas';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Roads wander, so a trip is longer than the straight line between its ends
+const ROAD_CIRCUITY = 1.3;
+
+// Average speed over successive stretches of a drive: local streets first,
+// then arterial roads, then highway
+const ROAD_SPEEDS: Array<{ miles: number; mph: number }> = [
+  { miles: 10, mph: 25 },
+  { miles: 40, mph: 45 },
+  { miles: Infinity, mph: 60 },
+];
+
+// One-way drives longer than this are assumed to be flown instead
+const MAX_DRIVE_HOURS = 5;
+
+// Getting to the airport, security, boarding and the trip from the far airport
+const AIRPORT_OVERHEAD_HOURS = 4;
+const FLIGHT_MPH = 450;
+
+const DAYS_PER_MONTH = 30.44;
+
+// Most treatment cycles run three to four weeks; the longer one is assumed
+// when the protocol does not say
+const ASSUMED_INTERVAL_DAYS = 28;
+
+// Dosing more often than weekly is taken at home, not at the site
+const MIN_VISIT_INTERVAL_DAYS = 7;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  eight: 8,
+  twelve: 12,
+};
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+interface SchedulePattern {
+  pattern: RegExp;
+  // Days between doses for a matched phrase
+  toDays: (match: RegExpMatchArray) => number;
+}
+
+const SCHEDULE_PATTERNS: SchedulePattern[] = [
+  {
+    pattern: /\bevery\s+other\s+(day|week|month)\b/gi,
+    toDays: (m) => 2 * UNIT_DAYS[m[1].toLowerCase()],
+  },
+  {
+    pattern: /\bevery\s+(\d+|one|two|three|four|five|six|eight|twelve)\s+(day|week|month)s?\b/gi,
+    toDays: (m) => parseCount(m[1]) * UNIT_DAYS[m[2].toLowerCase()],
+  },
+  {
+    pattern: /\bq(\d+)(d|w)\b/gi,
+    toDays: (m) => Number(m[1]) * (m[2].toLowerCase() === 'w' ? 7 : 1),
+  },
+  {
+    pattern: /\b(\d+)[- ]day\s+cycles?\b|\bcycles?\s+of\s+(\d+)\s+days\b/gi,
+    toDays: (m) => Number(m[1] ?? m[2]),
+  },
+  { pattern: /\b(?:bi-?weekly|fortnightly)\b/gi, toDays: () => 14 },
+  { pattern: /\bweekly\b/gi, toDays: () => 7 },
+  { pattern: /\bmonthly\b/gi, toDays: () => 30 },
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function parseCount(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+}
+
+/**
+ * Hours to drive a road distance, slower for the first stretch of any trip
+ */
+function estimateDriveHours(roadMiles: number): number {
+  let remaining = roadMiles;
+  let hours = 0;
+  for (const { miles, mph } of ROAD_SPEEDS) {
+    const stretch = Math.min(remaining, miles);
+    hours += stretch / mph;
+    remaining -= stretch;
+    if (remaining <= 0) break;
+  }
+  return hours;
+}
+
+// ============================================================================
+// Visit Schedule
+// ============================================================================
+
+/**
+ * How often a trial brings patients to the site, read from its arm and
+ * intervention descriptions
+ * The most frequent schedule found is used, since that is what a patient
+ * would have to plan around.
+ */
+export function inferVisitSchedule(descriptions: string[]): VisitSchedule {
+  let best: { intervalDays: number; basis: string } | null = null;
+
+  for (const text of descriptions) {
+    for (const { pattern, toDays } of SCHEDULE_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const intervalDays = toDays(match);
+        if (!Number.isFinite(intervalDays) || intervalDays < MIN_VISIT_INTERVAL_DAYS) {
+          continue;
+        }
+        if (!best || intervalDays < best.intervalDays) {
+          best = { intervalDays, basis: match[0] };
+        }
+      }
+    }
+  }
+
+  const intervalDays = best?.intervalDays ?? ASSUMED_INTERVAL_DAYS;
+  return {
+    intervalDays,
+    visitsPerMonth: round(DAYS_PER_MONTH / intervalDays),
+    source: best ? 'protocol' : 'assumed',
+    ...(best && { basis: best.basis }),
+  };
+}
+
+// ============================================================================
+// Travel Burden
+// ============================================================================
+
+/**
+ * Estimate the travel a site asks of a patient, from its straight-line
+ * distance and the trial's visit schedule
+ */
+export function estimateTravelBurden(
+  distanceMiles: number,
+  schedule: VisitSchedule
+): TravelBurden {
+  const roadMiles = distanceMiles * ROAD_CIRCUITY;
+  const driveHours = estimateDriveHours(roadMiles);
+  const likelyFlight = driveHours > MAX_DRIVE_HOURS;
+  const oneWayHours = likelyFlight
+    ? AIRPORT_OVERHEAD_HOURS + distanceMiles / FLIGHT_MPH
+    : driveHours;
+  const roundTripHours = 2 * oneWayHours;
+
+  return {
+    roadMiles: Math.round(roadMiles),
+    driveHours: round(driveHours),
+    likelyFlight,
+    roundTripHours: round(roundTripHours),
+    visitsPerMonth: schedule.visitsPerMonth,
+    monthlyHours: round(roundTripHours * schedule.visitsPerMonth),
+  };
+}
+
+/**
+ * Add travel burden to locations with a known distance, least burdensome first
+ */
+export function addTravelBurden(locations: Location[], schedule: VisitSchedule): Location[] {
+  return locations
+    .map((location) =>
+      location.distance === undefined
+        ? location
+        : { ...location, travelBurden: estimateTravelBurden(location.distance, schedule) }
+    )
+    .sort(
+      (a, b) =>
+        (a.travelBurden?.monthlyHours ?? Infinity) - (b.travelBurden?.monthlyHours ?? Infinity)
+    );
+}
+
+/**
+ * A trial's travel burden at its least burdensome site, if any site has one
+ */
+export function getTrialTravelBurden(trial: Trial): TravelBurden | undefined {
+  let lowest: TravelBurden | undefined;
+  for (const { travelBurden } of trial.locations) {
+    if (travelBurden && (!lowest || travelBurden.monthlyHours < lowest.monthlyHours)) {
+      lowest = travelBurden;
+    }
+  }
+  return lowest;
+}
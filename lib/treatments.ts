@@ -0,0 +1,330 @@
+import type { Treatment } from './schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DrugClassDefinition {
+  label: string;
+  parent?: string;
+  pattern: RegExp;
+}
+
+/**
+ * A treatment the patient has had, resolved to drugs and drug classes
+ */
+export interface ResolvedTreatment {
+  name: string;
+  drugs: string[];
+  // Classes named directly, without their ancestors
+  drugClasses: string[];
+  startDate?: string;
+  endDate?: string;
+  line?: number;
+}
+
+export interface TreatmentReference {
+  drugClasses: string[];
+  drugs: string[];
+}
+
+// ============================================================================
+// Drug Class Tables
+// ============================================================================
+
+// Each class rolls up into its parent, so an anti-PD-1 counts as immunotherapy
+const DRUG_CLASSES: Record<string, DrugClassDefinition> = {
+  systemic_therapy: {
+    label: 'systemic therapy',
+    pattern: /\b(systemic (anti-?cancer )?(therapy|therapies|treatments?)|anti-?cancer therap(y|ies))\b/i,
+  },
+  chemotherapy: {
+    label: 'chemotherapy',
+    parent: 'systemic_therapy',
+    pattern: /\b(chemo(therapy)?|cytotoxic)\b/i,
+  },
+  platinum: {
+    label: 'platinum chemotherapy',
+    parent: 'chemotherapy',
+    pattern: /\bplatinum\b/i,
+  },
+  taxane: {
+    label: 'taxane',
+    parent: 'chemotherapy',
+    pattern: /\btaxanes?\b/i,
+  },
+  immunotherapy: {
+    label: 'immunotherapy',
+    parent: 'systemic_therapy',
+    pattern: /\b(immunotherap(y|ies)|immuno-oncology)\b/i,
+  },
+  checkpoint_inhibitor: {
+    label: 'immune checkpoint inhibitor',
+    parent: 'immunotherapy',
+    pattern: /\b((immune )?checkpoint inhibitors?|ici)\b/i,
+  },
+  anti_pd1: {
+    label: 'anti-PD-1',
+    parent: 'checkpoint_inhibitor',
+    pattern: /\banti-?pd-?1\b|\bpd-?1 (inhibitors?|blockade|antibod(y|ies)|agents?)\b|\bpd-?1\/pd-?l1\b/i,
+  },
+  anti_pdl1: {
+    label: 'anti-PD-L1',
+    parent: 'checkpoint_inhibitor',
+    pattern: /\banti-?pd-?l1\b|\bpd-?l1 (inhibitors?|blockade|antibod(y|ies)|agents?)\b|\bpd-?1\/pd-?l1\b/i,
+  },
+  anti_ctla4: {
+    label: 'anti-CTLA-4',
+    parent: 'checkpoint_inhibitor',
+    pattern: /\banti-?ctla-?4\b|\bctla-?4 (inhibitors?|antibod(y|ies)|agents?)\b/i,
+  },
+  targeted_therapy: {
+    label: 'targeted therapy',
+    parent: 'systemic_therapy',
+    pattern: /\btargeted therap(y|ies)\b/i,
+  },
+  egfr_tki: {
+    label: 'EGFR TKI',
+    parent: 'targeted_therapy',
+    pattern: /\begfr[- ]?(tkis?|tyrosine kinase inhibitors?|inhibitors?)\b/i,
+  },
+  alk_tki: {
+    label: 'ALK inhibitor',
+    parent: 'targeted_therapy',
+    pattern: /\balk[- ]?(tkis?|tyrosine kinase inhibitors?|inhibitors?)\b/i,
+  },
+  kras_g12c_inhibitor: {
+    label: 'KRAS G12C inhibitor',
+    parent: 'targeted_therapy',
+    pattern: /\b(kras )?g12c inhibitors?\b/i,
+  },
+  anti_her2: {
+    label: 'anti-HER2 therapy',
+    parent: 'targeted_therapy',
+    pattern: /\banti-?her2\b|\bher2[- ](directed|targeted)\b/i,
+  },
+  anti_angiogenic: {
+    label: 'anti-angiogenic therapy',
+    parent: 'targeted_therapy',
+    pattern: /\banti-?(vegf|angiogenic)\b/i,
+  },
+  antibody_drug_conjugate: {
+    label: 'antibody-drug conjugate',
+    parent: 'systemic_therapy',
+    pattern: /\b(antibody[- ]drug conjugates?|adcs?)\b/i,
+  },
+  hormone_therapy: {
+    label: 'hormone therapy',
+    parent: 'systemic_therapy',
+    pattern: /\b(hormon(e|al)|endocrine) therap(y|ies)\b/i,
+  },
+  radiotherapy: {
+    label: 'radiotherapy',
+    pattern: /\b(radiotherapy|radiation( therapy)?|sbrt)\b/i,
+  },
+  surgery: {
+    label: 'surgery',
+    pattern: /\b(surgery|surgical resection)\b/i,
+  },
+};
+
+// Generic names, lower case
+const DRUGS: Record<string, string[]> = {
+  osimertinib: ['egfr_tki'],
+  erlotinib: ['egfr_tki'],
+  gefitinib: ['egfr_tki'],
+  afatinib: ['egfr_tki'],
+  dacomitinib: ['egfr_tki'],
+  alectinib: ['alk_tki'],
+  brigatinib: ['alk_tki'],
+  ceritinib: ['alk_tki'],
+  crizotinib: ['alk_tki'],
+  lorlatinib: ['alk_tki'],
+  sotorasib: ['kras_g12c_inhibitor'],
+  adagrasib: ['kras_g12c_inhibitor'],
+  dabrafenib: ['targeted_therapy'],
+  trametinib: ['targeted_therapy'],
+  capmatinib: ['targeted_therapy'],
+  tepotinib: ['targeted_therapy'],
+  selpercatinib: ['targeted_therapy'],
+  pralsetinib: ['targeted_therapy'],
+  entrectinib: ['targeted_therapy'],
+  amivantamab: ['targeted_therapy'],
+  pembrolizumab: ['anti_pd1'],
+  nivolumab: ['anti_pd1'],
+  cemiplimab: ['anti_pd1'],
+  atezolizumab: ['anti_pdl1'],
+  durvalumab: ['anti_pdl1'],
+  avelumab: ['anti_pdl1'],
+  ipilimumab: ['anti_ctla4'],
+  tremelimumab: ['anti_ctla4'],
+  carboplatin: ['platinum'],
+  cisplatin: ['platinum'],
+  paclitaxel: ['taxane'],
+  'nab-paclitaxel': ['taxane'],
+  docetaxel: ['taxane'],
+  pemetrexed: ['chemotherapy'],
+  gemcitabine: ['chemotherapy'],
+  vinorelbine: ['chemotherapy'],
+  etoposide: ['chemotherapy'],
+  trastuzumab: ['anti_her2'],
+  pertuzumab: ['anti_her2'],
+  'trastuzumab deruxtecan': ['anti_her2', 'antibody_drug_conjugate'],
+  'ado-trastuzumab emtansine': ['anti_her2', 'antibody_drug_conjugate'],
+  bevacizumab: ['anti_angiogenic'],
+  ramucirumab: ['anti_angiogenic'],
+};
+
+// Brand names and abbreviations patients are likely to type
+const DRUG_ALIASES: Record<string, string> = {
+  tagrisso: 'osimertinib',
+  tarceva: 'erlotinib',
+  iressa: 'gefitinib',
+  alecensa: 'alectinib',
+  lumakras: 'sotorasib',
+  keytruda: 'pembrolizumab',
+  opdivo: 'nivolumab',
+  tecentriq: 'atezolizumab',
+  imfinzi: 'durvalumab',
+  yervoy: 'ipilimumab',
+  taxol: 'paclitaxel',
+  abraxane: 'nab-paclitaxel',
+  taxotere: 'docetaxel',
+  alimta: 'pemetrexed',
+  enhertu: 'trastuzumab deruxtecan',
+  't-dxd': 'trastuzumab deruxtecan',
+  'ds-8201': 'trastuzumab deruxtecan',
+  'kadcyla': 'ado-trastuzumab emtansine',
+  't-dm1': 'ado-trastuzumab emtansine',
+  avastin: 'bevacizumab',
+};
+
+// Longest names first so "trastuzumab deruxtecan" wins over "trastuzumab"
+const DRUG_NAMES = [...Object.keys(DRUGS), ...Object.keys(DRUG_ALIASES)]
+  .sort((a, b) => b.length - a.length);
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A class and all of its ancestors
+ */
+export function expandDrugClasses(drugClasses: string[]): string[] {
+  const expanded = new Set<string>();
+  for (const id of drugClasses) {
+    let current: string | undefined = id;
+    while (current && !expanded.has(current)) {
+      expanded.add(current);
+      current = DRUG_CLASSES[current]?.parent;
+    }
+  }
+  return Array.from(expanded);
+}
+
+/**
+ * Find the drugs and drug classes a piece of text refers to
+ * Classes that are ancestors of another named class are dropped, so
+ * "systemic therapy, including a PD-1 inhibitor" resolves to anti-PD-1 only
+ */
+export function resolveTreatmentText(text: string): TreatmentReference {
+  let remaining = text;
+  const drugs: string[] = [];
+
+  for (const name of DRUG_NAMES) {
+    const pattern = new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i');
+    if (pattern.test(remaining)) {
+      drugs.push(DRUG_ALIASES[name] ?? name);
+      remaining = remaining.replace(pattern, ' ');
+    }
+  }
+
+  const named = Object.entries(DRUG_CLASSES)
+    .filter(([, definition]) => definition.pattern.test(remaining))
+    .map(([id]) => id);
+
+  const drugClasses = named.filter((id) =>
+    !named.some((other) => other !== id && expandDrugClasses([other]).includes(id))
+  );
+
+  return { drugClasses, drugs: Array.from(new Set(drugs)) };
+}
+
+/**
+ * Resolve a profile entry (a drug, a regimen like "carboplatin/pemetrexed",
+ * or an intake category like "Immunotherapy")
+ */
+export function resolveTreatment(treatment: Treatment | string): ResolvedTreatment {
+  const entry = typeof treatment === 'string' ? { drug: treatment } : treatment;
+  const { drugs, drugClasses } = resolveTreatmentText(entry.drug);
+
+  return {
+    ...entry,
+    name: entry.drug,
+    drugs,
+    drugClasses: Array.from(new Set([...drugs.flatMap((d) => DRUGS[d] ?? []), ...drugClasses])),
+  };
+}
+
+/**
+ * Whether a treatment is one of the referenced drugs or classes
+ * Returns null when the treatment is too broad to tell ("Immunotherapy" vs "anti-PD-1")
+ */
+export function treatmentMatches(
+  treatment: ResolvedTreatment,
+  reference: TreatmentReference
+): boolean | null {
+  if (reference.drugs.some((drug) => treatment.drugs.includes(drug))) {
+    return true;
+  }
+
+  const requiredClasses = [
+    ...reference.drugClasses,
+    ...reference.drugs.flatMap((drug) => DRUGS[drug] ?? []),
+  ];
+  const treatmentClasses = expandDrugClasses(treatment.drugClasses);
+
+  if (requiredClasses.some((id) => treatmentClasses.includes(id))) {
+    return true;
+  }
+
+  // A named drug class is more specific than the treatment we know about
+  const requiredAncestors = expandDrugClasses(requiredClasses);
+  if (
+    treatment.drugClasses.length === 0 ||
+    treatment.drugClasses.some((id) => requiredAncestors.includes(id))
+  ) {
+    return null;
+  }
+
+  return false;
+}
+
+/**
+ * Whole days since the treatment ended; 0 while ongoing, null without dates
+ */
+export function daysSinceTreatment(treatment: ResolvedTreatment, now: Date = new Date()): number | null {
+  const date = treatment.endDate ?? (treatment.startDate ? null : undefined);
+  if (date === undefined) return null;
+  if (date === null) return 0;
+
+  const end = new Date(`${date}T00:00:00`);
+  if (Number.isNaN(end.getTime())) return null;
+
+  return Math.max(0, Math.floor((now.getTime() - end.getTime()) / 86_400_000));
+}
+
+/**
+ * Human-readable label for a treatment reference
+ */
+export function describeTreatmentReference(reference: TreatmentReference): string {
+  const names = [
+    ...reference.drugs,
+    ...reference.drugClasses.map((id) => DRUG_CLASSES[id]?.label ?? id),
+  ];
+  return names.length > 0 ? names.join(' or ') : 'systemic therapy';
+}
@@ -0,0 +1,22 @@
+// The zipcodes package ships without type definitions
+declare module 'zipcodes' {
+  export interface ZipCodeInfo {
+    zip: string;
+    latitude: number;
+    longitude: number;
+    city: string;
+    state: string;
+    // 'US' or 'Canada'; Canadian entries are keyed by the first three characters
+    country: string;
+  }
+
+  const zipcodes: {
+    codes: Record<string, ZipCodeInfo>;
+    lookup(zip: string): ZipCodeInfo | undefined;
+    // State may be an abbreviation or a full name
+    lookupByName(city: string, state: string): ZipCodeInfo[];
+    lookupByState(state: string): ZipCodeInfo[];
+  };
+
+  export default zipcodes;
+}
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+// Records a ClinicalTrials.gov v2 search into fixtures/clinicaltrials/<slug>.json
+// so VITE_CLINICALTRIALS_DATA_MODE=fixture can replay it offline.
+//
+// Usage: node scripts/record-clinicaltrials-fixture.mjs "<condition>" [maxPages] [pageSize]
+//
+// The query mirrors buildSearchQuery in lib/clinicaltrials.ts (without the geo filter,
+// which the fixture replay ignores).
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const API_BASE = process.env.VITE_CLINICALTRIALS_API_BASE || 'https://clinicaltrials.gov/api/v2';
+
+const STUDY_FIELDS = [
+  'protocolSection.identificationModule',
+  'protocolSection.statusModule',
+  'protocolSection.designModule',
+  'protocolSection.sponsorCollaboratorsModule',
+  'protocolSection.conditionsModule',
+  'protocolSection.armsInterventionsModule',
+  'protocolSection.eligibilityModule',
+  'protocolSection.contactsLocationsModule',
+];
+
+const [condition, maxPagesArg = '3', pageSizeArg = '20'] = process.argv.slice(2);
+
+if (!condition) {
+  console.error('Usage: node scripts/record-clinicaltrials-fixture.mjs "<condition>" [maxPages] [pageSize]');
+  process.exit(1);
+}
+
+const slug = condition
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+const pages = [];
+let pageToken;
+
+for (let page = 0; page < Number(maxPagesArg); page++) {
+  const query = new URLSearchParams({
+    'query.cond': condition,
+    'filter.overallStatus': 'RECRUITING',
+    'query.term': 'AREA[StudyType]INTERVENTIONAL',
+    fields: STUDY_FIELDS.join(','),
+    pageSize: pageSizeArg,
+    countTotal: 'true',
+  });
+  if (pageToken) {
+    query.set('pageToken', pageToken);
+  }
+
+  const response = await fetch(`${API_BASE}/studies?${query}`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    console.error(`ClinicalTrials.gov API error: ${response.status} ${response.statusText}`);
+    process.exit(1);
+  }
+
+  const body = await response.json();
+  pageToken = body.nextPageToken;
+
+  // The last recorded page must not point at a page we did not record
+  if (page === Number(maxPagesArg) - 1) {
+    delete body.nextPageToken;
+  }
+  pages.push(body);
+
+  if (!pageToken) break;
+}
+
+const outFile = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'fixtures',
+  'clinicaltrials',
+  `${slug}.json`
+);
+
+await mkdir(dirname(outFile), { recursive: true });
+await writeFile(
+  outFile,
+  JSON.stringify({ recordedAt: new Date().toISOString(), condition, pages }, null, 2) + '\n'
+);
+
+const studyCount = pages.reduce((sum, p) => sum + (p.studies?.length ?? 0), 0);
+console.log(`Recorded ${studyCount} studies across ${pages.length} page(s) to ${outFile}`);
@@ -0,0 +1,82 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { ClinicalTrialsDataModeSchema } from '../lib/config';
+
+// ============================================================================
+// Configuration Schema
+// ============================================================================
+
+// Read from the process environment at startup; none of this reaches the browser
+const ServerConfigSchema = z.object({
+  PORT: z.coerce.number().int().positive().default(3001),
+  LLM_PROVIDER: z.enum(['anthropic', 'stub']).default('anthropic'),
+  LLM_MODEL: z.string().min(1).default('claude-sonnet-4-20250514'),
+  TOOLHOUSE_API_KEY: z.string().default(''),
+  RTRVR_API_KEY: z.string().default(''),
+  ELEVENLABS_API_KEY: z.string().default(''),
+  // Proxied requests allowed per session per minute
+  RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(60),
+  // Pipeline jobs run at once; later ones wait in a queue
+  MAX_CONCURRENT_JOBS: z.coerce.number().int().positive().default(2),
+  // Trial data source for pipeline jobs; unset uses the build's setting
+  CLINICALTRIALS_DATA_MODE: ClinicalTrialsDataModeSchema.optional(),
+  // Where pipeline jobs keep rtrvr.ai extractions between restarts
+  EXTRACTION_CACHE_DIR: z.string().min(1).default('.cache/extractions'),
+  // Honour X-Forwarded-For (set when running behind nginx)
+  TRUST_PROXY: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+// ============================================================================
+// .env Loading
+// ============================================================================
+
+/**
+ * Copy KEY=value lines from a .env file into process.env
+ * Variables already set in the environment win, as with Vite's own loading
+ */
+function loadEnvFile(path: string): void {
+  if (!existsSync(path)) {
+    return;
+  }
+
+  for (const line of readFileSync(path, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (!match) continue;
+
+    const [, key, rawValue] = match;
+    const value = rawValue.replace(/^(['"])(.*)\1$/, '$2');
+    if (process.env[key] === undefined) {
+      process.env[key] = value;
+    }
+  }
+}
+
+// ============================================================================
+// Configuration Cache
+// ============================================================================
+
+let cachedConfig: ServerConfig | null = null;
+
+export function getServerConfig(): ServerConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  loadEnvFile('.env');
+  const result = ServerConfigSchema.safeParse(process.env);
+
+  if (!result.success) {
+    const invalidKeys = result.error.issues
+      .map((issue) => issue.path.join('.'))
+      .join(', ');
+    throw new Error(`Missing or invalid server environment variables: ${invalidKeys}`);
+  }
+
+  cachedConfig = result.data;
+  return cachedConfig;
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ExtractionCacheStore } from '../lib/extraction-cache';
+import { CachedExtractionSchema } from '../lib/schemas';
+
+// ============================================================================
+// Disk Store
+// ============================================================================
+
+/**
+ * Keep extractions as one JSON file per trial, so they survive restarts
+ */
+export function createFileExtractionCacheStore(directory: string): ExtractionCacheStore {
+  const pathFor = (nctId: string) => join(directory, `${encodeURIComponent(nctId)}.json`);
+
+  return {
+    async get(nctId) {
+      let text: string;
+      try {
+        text = await readFile(pathFor(nctId), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        json = undefined;
+      }
+
+      // A truncated or corrupt file is a miss; removing it lets the next
+      // extraction be cached again
+      const parsed = CachedExtractionSchema.safeParse(json);
+      if (!parsed.success) {
+        console.warn(`Discarding unreadable cached extraction for ${nctId}`);
+        await rm(pathFor(nctId), { force: true });
+        return null;
+      }
+      return parsed.data;
+    },
+
+    async set(entry) {
+      await mkdir(directory, { recursive: true });
+      // Written aside and renamed, so a reader never sees half a file
+      const path = pathFor(entry.nctId);
+      const partial = `${path}.${randomUUID()}.tmp`;
+      await writeFile(partial, JSON.stringify(entry));
+      await rename(partial, path);
+    },
+
+    async clear() {
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_BODY_BYTES = 1_000_000;
+
+// ============================================================================
+// Request Helpers
+// ============================================================================
+
+/**
+ * Read the raw request body, refusing anything over MAX_BODY_BYTES
+ */
+export async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new Error('Request body is not valid JSON');
+  }
+}
+
+/**
+ * Client address, taken from X-Forwarded-For only when behind a trusted proxy
+ */
+export function getClientIp(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+// ============================================================================
+// Response Helpers
+// ============================================================================
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export function sendError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { error: message });
+}
+
+/**
+ * Start a Server-Sent Events stream
+ * nginx would otherwise buffer the stream until it ends.
+ */
+export function startEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+}
+
+export function writeEvent(res: ServerResponse, id: number, type: string, data: unknown): void {
+  res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Relay an upstream fetch response, streaming the body through
+ */
+export async function relayResponse(res: ServerResponse, upstream: Response): Promise<void> {
+  const retryAfter = upstream.headers.get('retry-after');
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') ?? 'application/octet-stream',
+    // Clients wait as long as the upstream asks before retrying
+    ...(retryAfter && { 'Retry-After': retryAfter }),
+  });
+
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+
+  const reader = upstream.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    res.write(value);
+  }
+  res.end();
+}
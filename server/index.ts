@@ -0,0 +1,184 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { SESSION_HEADER } from '../lib/api';
+import { getExtractionCacheStats } from '../lib/extraction-cache';
+import { getServerConfig } from './config';
+import { getClientIp, sendError, sendJson } from './http';
+import {
+  configurePipelineServices,
+  createJobRunner,
+  handleCancelJob,
+  handleCreateJob,
+  handleGetJob,
+  handleGetJobResult,
+  handleJobEvents,
+} from './jobs';
+import { createServerLLMProvider, handleLLMComplete } from './llm';
+import { handleElevenLabs, handleRtrvr } from './proxy';
+import { createRateLimiter } from './rate-limit';
+import type { RateLimiter } from './rate-limit';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+const config = getServerConfig();
+const llmProvider = createServerLLMProvider(config);
+
+configurePipelineServices(config, llmProvider);
+const jobRunner = createJobRunner(config.MAX_CONCURRENT_JOBS);
+
+const sessionLimiter = createRateLimiter(config.RATE_LIMIT_PER_MINUTE);
+
+// Sessions are client-chosen, so a looser per-address cap stops a client
+// from dodging the limit by rotating session ids
+const addressLimiter = createRateLimiter(config.RATE_LIMIT_PER_MINUTE * 5);
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+type RouteHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  sessionId: string
+) => Promise<void>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+  // Reading job status and events is cheap and exempt from the rate limit
+  rateLimited?: boolean;
+}
+
+// Matched against the URL path; the first capture group is passed on as `path`
+const ROUTES: Route[] = [
+  {
+    method: 'POST',
+    pattern: /^\/api\/llm\/complete$/,
+    handler: (req, res) => handleLLMComplete(req, res, llmProvider),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/rtrvr(\/.*)$/,
+    handler: (req, res, path) => handleRtrvr(req, res, path, config),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/elevenlabs(\/.*)$/,
+    handler: (req, res, path) => handleElevenLabs(req, res, path, config),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/jobs$/,
+    handler: (req, res, _path, sessionId) => handleCreateJob(req, res, jobRunner, sessionId),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/jobs\/([A-Za-z0-9-]+)$/,
+    handler: (_req, res, id, sessionId) => handleGetJob(res, jobRunner, id, sessionId),
+    rateLimited: false,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/jobs\/([A-Za-z0-9-]+)\/events$/,
+    handler: (req, res, id, sessionId) => handleJobEvents(req, res, jobRunner, id, sessionId),
+    rateLimited: false,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/jobs\/([A-Za-z0-9-]+)\/result$/,
+    handler: (_req, res, id, sessionId) => handleGetJobResult(res, jobRunner, id, sessionId),
+    rateLimited: false,
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/jobs\/([A-Za-z0-9-]+)$/,
+    handler: (_req, res, id, sessionId) => handleCancelJob(res, jobRunner, id, sessionId),
+  },
+];
+
+// ============================================================================
+// Request Handling
+// ============================================================================
+
+/**
+ * Apply the session and address limits; returns false once a 429 has been sent
+ * A request counts against the limits only when all of them allow it.
+ */
+function checkRateLimit(req: IncomingMessage, res: ServerResponse, sessionId: string): boolean {
+  const address = getClientIp(req, config.TRUST_PROXY);
+  const limits: Array<[RateLimiter, string]> = [
+    [sessionLimiter, `session:${sessionId}`],
+    [addressLimiter, `address:${address}`],
+  ];
+
+  for (const [limiter, key] of limits) {
+    const decision = limiter.check(key);
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+      sendError(res, 429, 'Rate limit exceeded');
+      return false;
+    }
+  }
+
+  for (const [limiter, key] of limits) {
+    limiter.take(key);
+  }
+  return true;
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method === 'GET' && pathname === '/api/health') {
+    sendJson(res, 200, {
+      status: 'ok',
+      llmProvider: llmProvider?.name ?? null,
+      extractionCache: getExtractionCacheStats(),
+    });
+    return;
+  }
+
+  const route = ROUTES.find((r) => r.method === req.method && r.pattern.test(pathname));
+  if (!route) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+
+  const sessionId = req.headers[SESSION_HEADER.toLowerCase()];
+  if (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId)) {
+    sendError(res, 400, `Missing or invalid ${SESSION_HEADER} header`);
+    return;
+  }
+
+  if (route.rateLimited !== false && !checkRateLimit(req, res, sessionId)) {
+    return;
+  }
+
+  const path = pathname.match(route.pattern)?.[1] ?? '';
+  await route.handler(req, res, path, sessionId);
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${req.method} ${req.url} failed:`, message);
+
+    if (!res.headersSent) {
+      sendError(res, 500, 'Internal server error');
+    } else {
+      res.end();
+    }
+  });
+});
+
+server.listen(config.PORT, () => {
+  console.log(
+    `API server listening on port ${config.PORT} (LLM: ${llmProvider?.name ?? 'not configured'})`
+  );
+});
@@ -0,0 +1,382 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { setServiceEndpoint } from '../lib/api';
+import { createMemoryCheckpointStore } from '../lib/checkpoint';
+import { setClinicalTrialsDataMode, setLLMProviderName } from '../lib/config';
+import { setExtractionCacheStore } from '../lib/extraction-cache';
+import { setLLMProviderOverride } from '../lib/llm-provider';
+import type { LLMProvider } from '../lib/llm-provider';
+import { getInitialSteps, isFinalPipelineEvent, runPipeline } from '../lib/orchestrator';
+import { PatientProfileSchema } from '../lib/schemas';
+import type { PatientProfile, PipelineEvent, PipelineJob, PipelineResult } from '../lib/schemas';
+import type { ServerConfig } from './config';
+import { createFileExtractionCacheStore } from './extraction-cache';
+import { readJsonBody, sendError, sendJson, startEventStream, writeEvent } from './http';
+import { ELEVENLABS_BASE_URL, RTRVR_BASE_URL } from './proxy';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Called with each event and its index in the job's event log
+type JobListener = (event: PipelineEvent, id: number) => void;
+
+interface JobRecord {
+  job: PipelineJob;
+  // Jobs are only visible to the session that started them
+  sessionId: string;
+  profile: PatientProfile;
+  // Checkpoint the pipeline saves to; a job resuming an earlier one shares it
+  runId: string;
+  controller: AbortController;
+  // Every event so far, replayed to clients that connect late or reconnect
+  events: PipelineEvent[];
+  listeners: Set<JobListener>;
+  result?: PipelineResult;
+}
+
+export interface JobRunner {
+  // A failed or cancelled job of the same session and profile can be resumed
+  submit(profile: PatientProfile, sessionId: string, resumeJobId?: string): PipelineJob;
+  get(id: string, sessionId: string): JobRecord | undefined;
+  cancel(id: string, sessionId: string): PipelineJob | undefined;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Finished jobs and their results are dropped after this long
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Comment lines sent on idle event streams so proxies keep them open
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// ============================================================================
+// Pipeline Setup
+// ============================================================================
+
+/**
+ * Point the pipeline's agents at the upstream services directly
+ * Jobs run inside the server, so they use its keys rather than the proxy routes.
+ */
+export function configurePipelineServices(config: ServerConfig, llmProvider: LLMProvider | null): void {
+  if (config.CLINICALTRIALS_DATA_MODE) {
+    setClinicalTrialsDataMode(config.CLINICALTRIALS_DATA_MODE);
+  }
+
+  setLLMProviderOverride(llmProvider);
+  // Without a key there is no model to call, and the proxy routes lead back here
+  if (!llmProvider) {
+    setLLMProviderName('none');
+  }
+  setServiceEndpoint('rtrvr', {
+    baseUrl: RTRVR_BASE_URL,
+    headers: { Authorization: `Bearer ${config.RTRVR_API_KEY}` },
+  });
+  setServiceEndpoint('elevenlabs', {
+    baseUrl: ELEVENLABS_BASE_URL,
+    headers: { 'xi-api-key': config.ELEVENLABS_API_KEY },
+  });
+  setExtractionCacheStore(createFileExtractionCacheStore(config.EXTRACTION_CACHE_DIR));
+}
+
+// ============================================================================
+// Job Runner
+// ============================================================================
+
+/**
+ * Run pipeline jobs in the background, at most `maxConcurrent` at a time
+ */
+export function createJobRunner(maxConcurrent: number): JobRunner {
+  const records = new Map<string, JobRecord>();
+  const checkpoints = createMemoryCheckpointStore();
+  const queue: JobRecord[] = [];
+  let running = 0;
+
+  function update(record: JobRecord, changes: Partial<PipelineJob>): void {
+    record.job = { ...record.job, ...changes, updatedAt: new Date().toISOString() };
+  }
+
+  function publish(record: JobRecord, event: PipelineEvent): void {
+    record.events.push(event);
+    if (event.type === 'step_started' || event.type === 'step_progress' || event.type === 'step_complete') {
+      update(record, {
+        steps: record.job.steps.map((s) => (s.id === event.step.id ? event.step : s)),
+      });
+    }
+
+    for (const listener of record.listeners) {
+      listener(event, record.events.length - 1);
+    }
+  }
+
+  async function run(record: JobRecord): Promise<void> {
+    update(record, { status: 'running' });
+
+    try {
+      record.result = await runPipeline(
+        record.profile,
+        (event) => publish(record, event),
+        {
+          abortSignal: record.controller.signal,
+          synthesizeAudio: false,
+          checkpoint: { store: checkpoints, runId: record.runId },
+        }
+      );
+      update(record, { status: 'complete' });
+      await checkpoints.remove(record.runId);
+    } catch (error) {
+      if (record.controller.signal.aborted) {
+        update(record, { status: 'cancelled' });
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Pipeline job ${record.job.id} failed:`, message);
+        update(record, { status: 'error', error: message });
+      }
+    }
+  }
+
+  function drain(): void {
+    while (running < maxConcurrent && queue.length > 0) {
+      const record = queue.shift()!;
+      running++;
+      run(record).finally(() => {
+        running--;
+        drain();
+      });
+    }
+  }
+
+  function sweep(): void {
+    const cutoff = Date.now() - JOB_TTL_MS;
+    const expiredRuns = new Set<string>();
+    for (const [id, record] of records) {
+      const finished = record.job.status !== 'queued' && record.job.status !== 'running';
+      if (finished && Date.parse(record.job.updatedAt) < cutoff) {
+        records.delete(id);
+        expiredRuns.add(record.runId);
+      }
+    }
+
+    // A checkpoint goes once no job that could resume it is left
+    for (const record of records.values()) {
+      expiredRuns.delete(record.runId);
+    }
+    for (const runId of expiredRuns) {
+      checkpoints.remove(runId).catch(() => undefined);
+    }
+  }
+
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+
+  function find(id: string, sessionId: string): JobRecord | undefined {
+    const record = records.get(id);
+    return record?.sessionId === sessionId ? record : undefined;
+  }
+
+  /**
+   * The checkpoint a new job continues from: a resumable earlier job's, or its own
+   */
+  function getRunId(
+    id: string,
+    profile: PatientProfile,
+    sessionId: string,
+    resumeJobId?: string
+  ): string {
+    const earlier = resumeJobId ? find(resumeJobId, sessionId) : undefined;
+    const resumable =
+      earlier &&
+      (earlier.job.status === 'error' || earlier.job.status === 'cancelled') &&
+      JSON.stringify(earlier.profile) === JSON.stringify(profile);
+    return resumable ? earlier.runId : id;
+  }
+
+  return {
+    submit(profile, sessionId, resumeJobId) {
+      const now = new Date().toISOString();
+      const id = randomUUID();
+      const record: JobRecord = {
+        job: {
+          id,
+          status: 'queued',
+          steps: getInitialSteps(),
+          createdAt: now,
+          updatedAt: now,
+        },
+        sessionId,
+        profile,
+        runId: getRunId(id, profile, sessionId, resumeJobId),
+        controller: new AbortController(),
+        events: [],
+        listeners: new Set(),
+      };
+
+      records.set(record.job.id, record);
+      queue.push(record);
+      drain();
+      return record.job;
+    },
+
+    get: find,
+
+    cancel(id, sessionId) {
+      const record = find(id, sessionId);
+      if (!record) {
+        return undefined;
+      }
+
+      if (record.job.status === 'queued') {
+        queue.splice(queue.indexOf(record), 1);
+        update(record, { status: 'cancelled' });
+        publish(record, { type: 'pipeline_error', message: 'Pipeline cancelled by user' });
+      } else if (record.job.status === 'running') {
+        // The pipeline notices at its next step and the job becomes cancelled
+        record.controller.abort();
+      }
+      return record.job;
+    },
+  };
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+/**
+ * POST /api/jobs[?resume=<id>]
+ */
+export async function handleCreateJob(
+  req: IncomingMessage,
+  res: ServerResponse,
+  runner: JobRunner,
+  sessionId: string
+): Promise<void> {
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    sendError(res, 400, error instanceof Error ? error.message : 'Invalid request body');
+    return;
+  }
+
+  const parsed = PatientProfileSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    sendError(res, 400, `Invalid patient profile: ${issue?.path.join('.')} ${issue?.message}`);
+    return;
+  }
+
+  const { searchParams } = new URL(req.url ?? '/', 'http://localhost');
+  const job = runner.submit(parsed.data, sessionId, searchParams.get('resume') ?? undefined);
+  res.setHeader('Location', `/api/jobs/${job.id}`);
+  sendJson(res, 202, job);
+}
+
+/**
+ * GET /api/jobs/<id>
+ */
+export async function handleGetJob(
+  res: ServerResponse,
+  runner: JobRunner,
+  id: string,
+  sessionId: string
+): Promise<void> {
+  const record = runner.get(id, sessionId);
+  if (!record) {
+    sendError(res, 404, 'Job not found');
+    return;
+  }
+  sendJson(res, 200, record.job);
+}
+
+/**
+ * GET /api/jobs/<id>/events
+ * Streams the job's events as Server-Sent Events, starting after the
+ * Last-Event-ID header when a client reconnects, and ends after the final event
+ */
+export async function handleJobEvents(
+  req: IncomingMessage,
+  res: ServerResponse,
+  runner: JobRunner,
+  id: string,
+  sessionId: string
+): Promise<void> {
+  const record = runner.get(id, sessionId);
+  if (!record) {
+    sendError(res, 404, 'Job not found');
+    return;
+  }
+
+  const lastEventId = Number(req.headers['last-event-id']);
+  const startAt = Number.isInteger(lastEventId) ? lastEventId + 1 : 0;
+
+  startEventStream(res);
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+  const listener: JobListener = (event, eventId) => {
+    writeEvent(res, eventId, event.type, event);
+    if (isFinalPipelineEvent(event)) {
+      close();
+    }
+  };
+
+  function close(): void {
+    clearInterval(heartbeat);
+    record!.listeners.delete(listener);
+    if (!res.writableEnded) {
+      res.end();
+    }
+  }
+
+  req.on('close', close);
+
+  for (let i = startAt; i < record.events.length; i++) {
+    listener(record.events[i], i);
+  }
+  if (!res.writableEnded) {
+    record.listeners.add(listener);
+  }
+}
+
+/**
+ * GET /api/jobs/<id>/result
+ */
+export async function handleGetJobResult(
+  res: ServerResponse,
+  runner: JobRunner,
+  id: string,
+  sessionId: string
+): Promise<void> {
+  const record = runner.get(id, sessionId);
+  if (!record) {
+    sendError(res, 404, 'Job not found');
+    return;
+  }
+
+  if (!record.result) {
+    const detail = record.job.error ? `: ${record.job.error}` : '';
+    sendError(res, 409, `Job is ${record.job.status}${detail}`);
+    return;
+  }
+  sendJson(res, 200, record.result);
+}
+
+/**
+ * DELETE /api/jobs/<id>
+ */
+export async function handleCancelJob(
+  res: ServerResponse,
+  runner: JobRunner,
+  id: string,
+  sessionId: string
+): Promise<void> {
+  const job = runner.cancel(id, sessionId);
+  if (!job) {
+    sendError(res, 404, 'Job not found');
+    return;
+  }
+  sendJson(res, 200, job);
+}
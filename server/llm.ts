@@ -0,0 +1,179 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { z } from 'zod';
+import { buildAgentRequest, getAgentOutputSchema } from '../lib/toolhouse';
+import { createStubProvider } from '../lib/llm-provider';
+import type { LLMMessage, LLMProvider } from '../lib/llm-provider';
+import type { ServerConfig } from './config';
+import { readJsonBody, sendError, sendJson } from './http';
+
+// ============================================================================
+// Request Schema
+// ============================================================================
+
+// Each rejected output adds a repair turn; the client allows two by default
+const MAX_REJECTED_OUTPUTS = 5;
+
+// The server builds the prompt, output tool and token limit for the agent
+// itself; clients only supply the agent input and outputs they rejected
+const ProxyRequestSchema = z.object({
+  agentId: z.string(),
+  input: z.unknown(),
+  rejected: z
+    .array(
+      z.object({
+        toolCallId: z.string().regex(/^[A-Za-z0-9_-]{1,100}$/),
+        output: z.unknown(),
+      })
+    )
+    .max(MAX_REJECTED_OUTPUTS),
+});
+
+// ============================================================================
+// Anthropic Provider
+// ============================================================================
+
+function toAnthropicMessage(message: LLMMessage): Anthropic.MessageParam {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.content };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: [
+          ...(message.text ? [{ type: 'text' as const, text: message.text }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: call.input,
+          })),
+        ],
+      };
+    case 'tool_result':
+      return {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: message.toolCallId,
+            is_error: message.isError,
+            content: message.content,
+          },
+        ],
+      };
+  }
+}
+
+export function createAnthropicProvider(apiKey: string, model: string): LLMProvider {
+  const anthropic = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete(request, signal) {
+      const response = await anthropic.messages.create({
+        model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: request.messages.map(toAnthropicMessage),
+        tools: [
+          {
+            name: request.tool.name,
+            description: request.tool.description,
+            input_schema: request.tool.inputSchema as Anthropic.Tool.InputSchema,
+          },
+        ],
+        tool_choice: { type: 'tool', name: request.tool.name },
+      }, { signal });
+
+      const text = response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      return {
+        ...(text && { text }),
+        toolCalls: response.content.flatMap((block) =>
+          block.type === 'tool_use' ? [{ id: block.id, name: block.name, input: block.input }] : []
+        ),
+        stopReason: response.stop_reason,
+        model: response.model,
+      };
+    },
+  };
+}
+
+/**
+ * The provider proxied requests go to, or null when no key is configured
+ */
+export function createServerLLMProvider(config: ServerConfig): LLMProvider | null {
+  if (config.LLM_PROVIDER === 'stub') {
+    return createStubProvider();
+  }
+  if (!config.TOOLHOUSE_API_KEY) {
+    return null;
+  }
+  return createAnthropicProvider(config.TOOLHOUSE_API_KEY, config.LLM_MODEL);
+}
+
+// ============================================================================
+// Handler
+// ============================================================================
+
+/**
+ * POST /api/llm/complete
+ */
+export async function handleLLMComplete(
+  req: IncomingMessage,
+  res: ServerResponse,
+  provider: LLMProvider | null
+): Promise<void> {
+  if (!provider) {
+    sendError(res, 503, 'LLM provider is not configured');
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    sendError(res, 400, error instanceof Error ? error.message : 'Invalid request body');
+    return;
+  }
+
+  const parsed = ProxyRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    sendError(res, 400, `Invalid LLM request: ${parsed.error.issues[0]?.message}`);
+    return;
+  }
+
+  const request = parsed.data;
+  const schema = getAgentOutputSchema(request.agentId);
+  if (!schema) {
+    sendError(res, 400, `Unknown agent: ${request.agentId}`);
+    return;
+  }
+
+  try {
+    const response = await provider.complete(
+      buildAgentRequest(
+        request.agentId,
+        request.input,
+        schema,
+        // z.unknown() makes `output` optional in the inferred types; it is present
+        request.rejected.map(({ toolCallId, output }) => ({ toolCallId, output }))
+      )
+    );
+    sendJson(res, 200, response);
+  } catch (error) {
+    // Pass upstream rate limiting through so the client backs off
+    const status = error instanceof Anthropic.APIError && error.status === 429 ? 429 : 502;
+    const retryAfter = error instanceof Anthropic.APIError && error.headers?.['retry-after'];
+    if (status === 429 && retryAfter) {
+      res.setHeader('Retry-After', retryAfter);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`LLM request for ${request.agentId} failed:`, message);
+    sendError(res, status, status === 429 ? 'Upstream rate limit exceeded' : 'LLM request failed');
+  }
+}
@@ -0,0 +1,98 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ServerConfig } from './config';
+import { readBody, relayResponse, sendError } from './http';
+
+// ============================================================================
+// Upstreams
+// ============================================================================
+
+export const RTRVR_BASE_URL = 'https://api.rtrvr.ai';
+export const ELEVENLABS_BASE_URL = 'https://api.elevenlabs.io/v1';
+
+// Only the endpoints the app uses are forwarded
+const RTRVR_PATHS = /^\/v1\/agent$/;
+const ELEVENLABS_PATHS = /^\/text-to-speech\/[A-Za-z0-9]+(\/stream)?$/;
+
+const UPSTREAM_TIMEOUT_MS = 60_000;
+
+// ============================================================================
+// Forwarding
+// ============================================================================
+
+async function forward(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: string,
+  headers: Record<string, string>
+): Promise<void> {
+  let body: Buffer;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    sendError(res, 400, error instanceof Error ? error.message : 'Invalid request body');
+    return;
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: new Uint8Array(body),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Upstream request to ${new URL(url).host} failed:`, message);
+    sendError(res, 502, 'Upstream request failed');
+    return;
+  }
+
+  await relayResponse(res, upstream);
+}
+
+/**
+ * POST /api/rtrvr/<path>
+ */
+export async function handleRtrvr(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  config: ServerConfig
+): Promise<void> {
+  if (!RTRVR_PATHS.test(path)) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+  if (!config.RTRVR_API_KEY) {
+    sendError(res, 503, 'rtrvr.ai is not configured');
+    return;
+  }
+
+  await forward(req, res, `${RTRVR_BASE_URL}${path}`, {
+    Authorization: `Bearer ${config.RTRVR_API_KEY}`,
+  });
+}
+
+/**
+ * POST /api/elevenlabs/<path>
+ */
+export async function handleElevenLabs(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  config: ServerConfig
+): Promise<void> {
+  if (!ELEVENLABS_PATHS.test(path)) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+  if (!config.ELEVENLABS_API_KEY) {
+    sendError(res, 503, 'ElevenLabs is not configured');
+    return;
+  }
+
+  await forward(req, res, `${ELEVENLABS_BASE_URL}${path}`, {
+    'xi-api-key': config.ELEVENLABS_API_KEY,
+  });
+}
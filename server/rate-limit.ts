@@ -0,0 +1,76 @@
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window resets
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  // Whether a request would be allowed, without counting it
+  check(key: string): RateLimitDecision;
+  take(key: string): RateLimitDecision;
+}
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+// ============================================================================
+// Fixed-Window Limiter
+// ============================================================================
+
+// Expired windows are swept once the map grows past this
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Allow `limit` requests per key in each window of `windowMs`
+ */
+export function createRateLimiter(limit: number, windowMs: number = 60_000): RateLimiter {
+  const windows = new Map<string, Window>();
+
+  function sweep(now: number): void {
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) {
+        windows.delete(key);
+      }
+    }
+  }
+
+  function currentWindow(key: string, now: number): Window {
+    if (windows.size > SWEEP_THRESHOLD) {
+      sweep(now);
+    }
+
+    let window = windows.get(key);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      windows.set(key, window);
+    }
+    return window;
+  }
+
+  function decide(key: string, consume: boolean): RateLimitDecision {
+    const now = Date.now();
+    const window = currentWindow(key, now);
+
+    const retryAfterSeconds = Math.ceil((window.startedAt + windowMs - now) / 1000);
+    if (window.count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterSeconds };
+    }
+
+    if (consume) {
+      window.count++;
+    }
+    return { allowed: true, remaining: limit - window.count, retryAfterSeconds };
+  }
+
+  return {
+    check: (key) => decide(key, false),
+    take: (key) => decide(key, true),
+  };
+}
@@ -1,5 +1,8 @@
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { Plus, X } from 'lucide-react';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { canGeocodePostalCodes } from '../../lib/geo-utils';
+import { DEFAULT_COUNTRY, StageSchema } from '../../lib/schemas';
 import type { PatientProfile } from '../../lib/schemas';
 import { z } from 'zod';
 
@@ -7,19 +10,112 @@ import { z } from 'zod';
 // Form Schema (extends PatientProfile with string biomarkers for input)
 // ============================================================================
 
+// The oldest age PatientProfile accepts
+const MAX_AGE_YEARS = 120;
+
+/**
+ * A YYYY-MM-DD input value as a local date, or null if it is not a real date
+ */
+function parseDateInput(value: string): Date | null {
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isPastDate(value: string): boolean {
+  const date = parseDateInput(value);
+  return date !== null && date.getTime() <= Date.now();
+}
+
+function isWithinMaxAge(value: string): boolean {
+  const date = parseDateInput(value);
+  const earliest = new Date();
+  earliest.setFullYear(earliest.getFullYear() - MAX_AGE_YEARS);
+  return date !== null && date >= earliest;
+}
+
+// Dates feed washout checks, so they must describe a real, finished past
+const TreatmentRowSchema = z.object({
+  drug: z.string(),
+  line: z.union([z.string(), z.number()]).optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+}).superRefine((row, ctx) => {
+  // Blank rows are dropped on submit
+  if (!row.drug.trim()) return;
+
+  if (row.startDate && !isPastDate(row.startDate)) {
+    ctx.addIssue({ code: 'custom', path: ['startDate'], message: 'Start date cannot be in the future' });
+  }
+  if (row.endDate && !isPastDate(row.endDate)) {
+    ctx.addIssue({ code: 'custom', path: ['endDate'], message: 'End date cannot be in the future' });
+  }
+  if (row.endDate && !row.startDate) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['startDate'],
+      message: 'Please enter a start date for a drug with an end date',
+    });
+  } else if (row.startDate && row.endDate && row.endDate < row.startDate) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['endDate'],
+      message: 'End date must be on or after the start date',
+    });
+  }
+});
+
 const FormSchema = z.object({
   diagnosis: z.string().min(3, 'Diagnosis must be at least 3 characters'),
-  stage: z.enum(['I', 'II', 'III', 'IV', 'Unknown']),
+  dateOfBirth: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Please enter a date of birth')
+    .refine(isPastDate, 'Date of birth cannot be in the future')
+    .refine(isWithinMaxAge, `Date of birth must be within the last ${MAX_AGE_YEARS} years`),
+  sex: z.enum(['female', 'male'], { errorMap: () => ({ message: 'Please select sex' }) }),
+  stage: StageSchema,
   biomarkers: z.string().optional().default(''),
   ecogScore: z.union([z.string(), z.number()]).transform(val => Number(val)),
   previousTreatments: z.array(z.string()).default([]),
-  zipcode: z.string().min(5, 'Zipcode must be 5 digits').max(5, 'Zipcode must be 5 digits'),
+  treatments: z.array(TreatmentRowSchema).default([]),
+  country: z.string().min(2),
+  zipcode: z.string().trim().max(10, 'Postal code is too long'),
+  // Blank unless the postal code cannot be placed
+  latitude: z.string().optional().default(''),
+  longitude: z.string().optional().default(''),
   travelRadiusMiles: z.union([z.string(), z.number()]).transform(val => Number(val) || 50),
   languagePreference: z.enum(['en', 'es', 'zh', 'fr', 'de']).default('en'),
+}).superRefine((data, ctx) => {
+  if (data.country === DEFAULT_COUNTRY) {
+    if (!/^\d{5}$/.test(data.zipcode)) {
+      ctx.addIssue({ code: 'custom', path: ['zipcode'], message: 'Zipcode must be 5 digits' });
+    }
+  } else if (canGeocodePostalCodes(data.country)) {
+    if (!data.zipcode) {
+      ctx.addIssue({ code: 'custom', path: ['zipcode'], message: 'Please enter a postal code' });
+    }
+  } else if (!parseCoordinates(data.latitude, data.longitude)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['latitude'],
+      message: 'Please enter your latitude and longitude, or use your current location',
+    });
+  }
 });
 
 type FormData = z.infer<typeof FormSchema>;
 
+function parseCoordinates(
+  latitude: string,
+  longitude: string
+): PatientProfile['coordinates'] | undefined {
+  const lat = parseFloat(latitude);
+  const lng = parseFloat(longitude);
+  if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+    return { lat, lng };
+  }
+  return undefined;
+}
+
 // ============================================================================
 // Props
 // ============================================================================
@@ -51,7 +147,31 @@ const TREATMENT_OPTIONS = [
   'None',
 ];
 
-const STAGE_OPTIONS = ['I', 'II', 'III', 'IV', 'Unknown'] as const;
+const SEX_OPTIONS = [
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+] as const;
+
+const STAGE_OPTIONS = StageSchema.options;
+
+// Names as ClinicalTrials.gov writes them
+const COUNTRY_OPTIONS = [
+  DEFAULT_COUNTRY,
+  'Canada',
+  'United Kingdom',
+  'Ireland',
+  'Germany',
+  'France',
+  'Spain',
+  'Italy',
+  'Netherlands',
+  'Belgium',
+  'Switzerland',
+  'Austria',
+  'Sweden',
+  'Denmark',
+  'Poland',
+];
 
 const LANGUAGE_OPTIONS = [
   { value: 'en', label: 'English' },
@@ -68,38 +188,78 @@ const LANGUAGE_OPTIONS = [
 export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
   const {
     register,
+    control,
     handleSubmit,
     watch,
+    setValue,
     formState: { errors },
   } = useForm<FormData>({
     resolver: zodResolver(FormSchema),
     defaultValues: {
       diagnosis: '',
+      dateOfBirth: '',
       stage: 'Unknown',
       biomarkers: '',
       ecogScore: 0,
       previousTreatments: [],
+      treatments: [],
+      country: DEFAULT_COUNTRY,
       zipcode: '',
+      latitude: '',
+      longitude: '',
       travelRadiusMiles: 50,
       languagePreference: 'en',
     },
   });
 
+  const { fields: treatmentFields, append, remove } = useFieldArray({
+    control,
+    name: 'treatments',
+  });
+
   const travelRadius = watch('travelRadiusMiles');
   const ecogScore = watch('ecogScore');
+  const country = watch('country');
+  const needsCoordinates = !canGeocodePostalCodes(country);
+
+  const fillCurrentLocation = () => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setValue('latitude', position.coords.latitude.toFixed(4), { shouldValidate: true });
+        setValue('longitude', position.coords.longitude.toFixed(4), { shouldValidate: true });
+      },
+      (error) => alert(`Could not get your location: ${error.message}`)
+    );
+  };
 
   const handleFormSubmit = async (data: FormData) => {
     console.log('Form submitted with data:', data);
     // Transform the data for PatientProfile
     const profile: PatientProfile = {
       diagnosis: data.diagnosis,
+      dateOfBirth: data.dateOfBirth,
+      sex: data.sex,
       stage: data.stage,
       biomarkers: data.biomarkers
         ? String(data.biomarkers).split(',').map((b) => b.trim()).filter(Boolean)
         : [],
       ecogScore: Number(data.ecogScore),
       previousTreatments: data.previousTreatments || [],
+      // Rows left blank are dropped; empty inputs become undefined
+      treatments: (data.treatments || [])
+        .filter((t) => t.drug.trim())
+        .map((t) => ({
+          drug: t.drug.trim(),
+          line: Number(t.line) || undefined,
+          startDate: t.startDate || undefined,
+          endDate: t.endDate || undefined,
+        })),
+      country: data.country,
       zipcode: data.zipcode,
+      // Coordinates are only asked for where the postal code cannot be placed
+      coordinates: needsCoordinates
+        ? parseCoordinates(data.latitude, data.longitude)
+        : undefined,
       travelRadiusMiles: Number(data.travelRadiusMiles) || 50,
       languagePreference: data.languagePreference || 'en',
     };
@@ -143,6 +303,56 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
         )}
       </div>
 
+      {/* Date of Birth and Sex Row */}
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        {/* Date of Birth */}
+        <div>
+          <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
+            Date of Birth *
+          </label>
+          <input
+            type="date"
+            id="dateOfBirth"
+            {...register('dateOfBirth')}
+            max={new Date().toISOString().slice(0, 10)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            disabled={isLoading}
+          />
+          {errors.dateOfBirth && (
+            <p className="mt-1 text-sm text-red-600">{errors.dateOfBirth.message}</p>
+          )}
+        </div>
+
+        {/* Sex */}
+        <div>
+          <label htmlFor="sex" className="block text-sm font-medium text-gray-700">
+            Sex *
+          </label>
+          <select
+            id="sex"
+            {...register('sex')}
+            defaultValue=""
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            disabled={isLoading}
+          >
+            <option value="" disabled>
+              Select...
+            </option>
+            {SEX_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Some trials enroll only one sex
+          </p>
+          {errors.sex && (
+            <p className="mt-1 text-sm text-red-600">{errors.sex.message}</p>
+          )}
+        </div>
+      </div>
+
       {/* Stage and ECOG Row */}
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
         {/* Stage */}
@@ -158,10 +368,13 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
           >
             {STAGE_OPTIONS.map((stage) => (
               <option key={stage} value={stage}>
-                Stage {stage}
+                {stage === 'Unknown' ? 'Unknown' : `Stage ${stage}`}
               </option>
             ))}
           </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Choose the sub-stage (e.g., IIIB) if you know it
+          </p>
           {errors.stage && (
             <p className="mt-1 text-sm text-red-600">{errors.stage.message}</p>
           )}
@@ -232,19 +445,112 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
         </div>
       </div>
 
+      {/* Treatment Details */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700">
+          Treatment Details
+        </label>
+        <p className="mt-1 text-xs text-gray-500">
+          Optional. Listing drugs and dates lets us check washout periods and prior lines of therapy.
+          Leave the end date empty if you are still on a drug.
+        </p>
+        {treatmentFields.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {treatmentFields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  {...register(`treatments.${index}.drug` as const)}
+                  placeholder="Drug, e.g., pembrolizumab"
+                  aria-label="Drug"
+                  className="col-span-12 sm:col-span-4 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  disabled={isLoading}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  {...register(`treatments.${index}.line` as const)}
+                  placeholder="Line"
+                  aria-label="Line of therapy"
+                  className="col-span-3 sm:col-span-2 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  disabled={isLoading}
+                />
+                <input
+                  type="date"
+                  {...register(`treatments.${index}.startDate` as const)}
+                  aria-label="Start date"
+                  className="col-span-4 sm:col-span-3 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  disabled={isLoading}
+                />
+                <input
+                  type="date"
+                  {...register(`treatments.${index}.endDate` as const)}
+                  aria-label="End date"
+                  className="col-span-4 sm:col-span-2 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  disabled={isLoading}
+                />
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  className="col-span-1 flex justify-center text-gray-400 hover:text-red-600"
+                  aria-label="Remove treatment"
+                  disabled={isLoading}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+                {errors.treatments?.[index] && (
+                  <p className="col-span-12 text-sm text-red-600">
+                    {errors.treatments[index]?.startDate?.message ??
+                      errors.treatments[index]?.endDate?.message}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={() => append({ drug: '', line: '', startDate: '', endDate: '' })}
+          className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          disabled={isLoading}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add a drug
+        </button>
+      </div>
+
       {/* Location Row */}
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        {/* Country */}
+        <div>
+          <label htmlFor="country" className="block text-sm font-medium text-gray-700">
+            Country *
+          </label>
+          <select
+            id="country"
+            {...register('country')}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            disabled={isLoading}
+          >
+            {COUNTRY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Zipcode */}
         <div>
           <label htmlFor="zipcode" className="block text-sm font-medium text-gray-700">
-            Zipcode *
+            {country === DEFAULT_COUNTRY ? 'Zipcode *' : needsCoordinates ? 'Postal Code' : 'Postal Code *'}
           </label>
           <input
             type="text"
             id="zipcode"
             {...register('zipcode')}
-            placeholder="e.g., 10001"
-            maxLength={5}
+            placeholder={country === DEFAULT_COUNTRY ? 'e.g., 10001' : 'e.g., M5G 2M9'}
+            maxLength={country === DEFAULT_COUNTRY ? 5 : 10}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
             disabled={isLoading}
           />
@@ -252,7 +558,56 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
             <p className="mt-1 text-sm text-red-600">{errors.zipcode.message}</p>
           )}
         </div>
+      </div>
 
+      {/* Coordinates, for countries whose postal codes cannot be placed offline */}
+      {needsCoordinates && (
+        <div>
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="latitude" className="block text-sm font-medium text-gray-700">
+                Latitude *
+              </label>
+              <input
+                type="text"
+                id="latitude"
+                inputMode="decimal"
+                {...register('latitude')}
+                placeholder="e.g., 52.5200"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="longitude" className="block text-sm font-medium text-gray-700">
+                Longitude *
+              </label>
+              <input
+                type="text"
+                id="longitude"
+                inputMode="decimal"
+                {...register('longitude')}
+                placeholder="e.g., 13.4050"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={fillCurrentLocation}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+            disabled={isLoading}
+          >
+            Use my current location
+          </button>
+          {errors.latitude && (
+            <p className="mt-1 text-sm text-red-600">{errors.latitude.message}</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
         {/* Travel Radius */}
         <div>
           <label htmlFor="travelRadius" className="block text-sm font-medium text-gray-700">
@@ -1,5 +1,16 @@
-import { Check, X, HelpCircle, ExternalLink, MapPin } from 'lucide-react';
-import type { Trial, MatchResult } from '../../lib/schemas';
+import { useState } from 'react';
+import {
+  Check,
+  X,
+  HelpCircle,
+  ExternalLink,
+  MapPin,
+  ChevronDown,
+  ChevronUp,
+  AlertTriangle,
+} from 'lucide-react';
+import { DEFAULT_COUNTRY } from '../../lib/schemas';
+import type { Trial, MatchResult, CriterionTrace, TravelBurden } from '../../lib/schemas';
 
 // ============================================================================
 // Props
@@ -8,6 +19,8 @@ import type { Trial, MatchResult } from '../../lib/schemas';
 interface TrialCardProps {
   trial: Trial;
   matchResult: MatchResult;
+  // Picked on the results map
+  selected?: boolean;
 }
 
 // ============================================================================
@@ -43,16 +56,62 @@ const CATEGORY_STYLES = {
 
 const MAX_FACTORS_SHOWN = 3;
 
+const VERDICT_LABELS: Record<CriterionTrace['verdict'], string> = {
+  met: 'Met',
+  not_met: 'Not met',
+  unknown: 'Unknown',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a verdict helps, hurts or leaves open the patient's eligibility
+ * (meeting an exclusion criterion hurts)
+ */
+function verdictOutcome(trace: CriterionTrace): 'pass' | 'fail' | 'unknown' {
+  if (trace.verdict === 'unknown') return 'unknown';
+  const met = trace.verdict === 'met';
+  return met === (trace.criterionType === 'inclusion') ? 'pass' : 'fail';
+}
+
+function describeDecision(trace: CriterionTrace): string {
+  const { kind, id } = trace.decidedBy;
+  const decidedBy = kind === 'none' ? 'not evaluated' : `${kind}: ${id}`;
+  return trace.profileField ? `${trace.profileField} · ${decidedBy}` : decidedBy;
+}
+
+/**
+ * One line on what getting to a site involves, e.g.
+ * "About 1.5 h drive each way · 1.1 visits a month · ~3.3 h travel a month"
+ */
+function describeTravel(burden: TravelBurden, schedule: Trial['visitSchedule']): string {
+  const trip = burden.likelyFlight
+    ? 'Likely a flight'
+    : `About ${burden.driveHours} h drive each way`;
+  const visits = `${burden.visitsPerMonth} visits a month${
+    schedule?.source === 'assumed' ? ' (estimated)' : ''
+  }`;
+  return `${trip} · ${visits} · ~${burden.monthlyHours} h travel a month`;
+}
+
 // ============================================================================
 // Component
 // ============================================================================
 
-export function TrialCard({ trial, matchResult }: TrialCardProps) {
+export function TrialCard({ trial, matchResult, selected = false }: TrialCardProps) {
   const categoryStyle = CATEGORY_STYLES[matchResult.category];
   const nearestLocation = trial.locations[0];
+  const [showTrace, setShowTrace] = useState(false);
 
   return (
-    <div className="bg-white rounded-lg shadow-md border border-gray-200 hover:shadow-lg transition-shadow duration-200">
+    <div
+      id={`trial-${trial.nctId}`}
+      className={`bg-white rounded-lg shadow-md border border-gray-200 hover:shadow-lg transition-shadow duration-200 scroll-mt-24 ${
+        selected ? 'ring-2 ring-blue-500' : ''
+      }`}
+    >
       {/* Header */}
       <div className="p-4 border-b border-gray-100">
         <div className="flex justify-between items-start gap-4">
@@ -163,6 +222,73 @@ export function TrialCard({ trial, matchResult }: TrialCardProps) {
         )}
       </div>
 
+      {/* Rule / Model Disagreements */}
+      {matchResult.disagreements.length > 0 && (
+        <div className="px-4 py-3 border-b border-gray-100 bg-amber-50">
+          <p className="flex items-center gap-1 text-xs font-medium text-amber-800 uppercase tracking-wide mb-1">
+            <AlertTriangle className="h-4 w-4" />
+            Automated checks disagree
+          </p>
+          <ul className="space-y-1">
+            {matchResult.disagreements.map((d, idx) => (
+              <li key={idx} className="text-sm text-amber-900">
+                <span className="line-clamp-1">{d.subject}</span>
+                <span className="block text-xs text-amber-700">
+                  Rules: {d.ruleVerdict} · AI review: {d.modelVerdict} — {d.explanation}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Criteria Trace */}
+      {matchResult.criteriaTrace.length > 0 && (
+        <div className="px-4 py-3 border-b border-gray-100">
+          <button
+            type="button"
+            onClick={() => setShowTrace(!showTrace)}
+            className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+            aria-expanded={showTrace}
+          >
+            {showTrace ? (
+              <ChevronUp className="w-4 h-4 mr-1" />
+            ) : (
+              <ChevronDown className="w-4 h-4 mr-1" />
+            )}
+            Criteria breakdown ({matchResult.criteriaTrace.length})
+          </button>
+
+          {showTrace && (
+            <ul className="mt-2 space-y-2">
+              {matchResult.criteriaTrace.map((trace, idx) => {
+                const outcome = verdictOutcome(trace);
+                return (
+                  <li key={idx} className="flex items-start gap-2 text-sm">
+                    {outcome === 'pass' && <Check className="h-4 w-4 flex-shrink-0 mt-0.5 text-green-600" />}
+                    {outcome === 'fail' && <X className="h-4 w-4 flex-shrink-0 mt-0.5 text-red-600" />}
+                    {outcome === 'unknown' && <HelpCircle className="h-4 w-4 flex-shrink-0 mt-0.5 text-gray-400" />}
+                    <div className="min-w-0">
+                      <p className="text-gray-800">{trace.criterion}</p>
+                      <p className="text-xs text-gray-500">
+                        {trace.criterionType === 'inclusion' ? 'Inclusion' : 'Exclusion'} ·{' '}
+                        {VERDICT_LABELS[trace.verdict]} · {describeDecision(trace)}
+                      </p>
+                      {trace.reason && (
+                        <p className="text-xs text-gray-500">{trace.reason}</p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+              <li className="text-xs text-gray-400 ml-6">
+                Scored with profile {matchResult.scoringProfileId}
+              </li>
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Location Section */}
       {nearestLocation && (
         <div className="px-4 py-3 border-b border-gray-100">
@@ -171,7 +297,13 @@ export function TrialCard({ trial, matchResult }: TrialCardProps) {
             <div>
               <p className="font-medium">{nearestLocation.facility}</p>
               <p>
-                {nearestLocation.city}, {nearestLocation.state}
+                {[
+                  nearestLocation.city,
+                  nearestLocation.state,
+                  nearestLocation.country !== DEFAULT_COUNTRY && nearestLocation.country,
+                ]
+                  .filter(Boolean)
+                  .join(', ')}
                 {nearestLocation.distance !== undefined && (
                   <span className="text-gray-500">
                     {' '}
@@ -179,6 +311,11 @@ export function TrialCard({ trial, matchResult }: TrialCardProps) {
                   </span>
                 )}
               </p>
+              {nearestLocation.travelBurden && (
+                <p className="text-gray-500">
+                  {describeTravel(nearestLocation.travelBurden, trial.visitSchedule)}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { getMapTileAttribution, getMapTileUrl } from '../../lib/config';
+import { placeLocations, resolveOrigin } from '../../lib/geo-utils';
+import type {
+  Coordinates,
+  Location,
+  MatchCategory,
+  MatchResult,
+  PatientProfile,
+  Trial,
+} from '../../lib/schemas';
+
+// ============================================================================
+// Props
+// ============================================================================
+
+interface TrialMapProps {
+  trials: Trial[];
+  matchResults: MatchResult[];
+  patientProfile: PatientProfile;
+  onSelectTrial: (nctId: string) => void;
+}
+
+interface MapSite {
+  nctId: string;
+  title: string;
+  category: MatchCategory;
+  location: Location;
+  coordinates: Coordinates;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CATEGORY_CONFIG: Record<MatchCategory, { color: string; label: string }> = {
+  strong_match: { color: '#22c55e', label: 'Strong Match' },
+  possible_match: { color: '#eab308', label: 'Possible Match' },
+  future_potential: { color: '#3b82f6', label: 'Future Potential' },
+  not_eligible: { color: '#6b7280', label: 'Not Eligible' },
+};
+
+const ORIGIN_COLOR = '#dc2626';
+
+const METERS_PER_MILE = 1609.34;
+
+// Shown until sites are placed: the contiguous United States
+const INITIAL_CENTER: L.LatLngTuple = [39.8, -98.6];
+const INITIAL_ZOOM = 4;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toLatLng({ lat, lng }: Coordinates): L.LatLngTuple {
+  return [lat, lng];
+}
+
+/**
+ * Tooltip for a site, built as text since facility names come from the registry
+ */
+function describeSite(site: MapSite): HTMLElement {
+  const { facility, city, state, country } = site.location;
+  const place = [city, state, country].filter(Boolean).join(', ');
+  const lines = [`${facility} (${place})`, site.title, CATEGORY_CONFIG[site.category].label];
+
+  const tooltip = document.createElement('div');
+  for (const line of lines) {
+    tooltip.appendChild(document.createElement('div')).textContent = line;
+  }
+  return tooltip;
+}
+
+/**
+ * Every placeable site of every matched trial, with the trial's category
+ */
+async function placeSites(trials: Trial[], matchResults: MatchResult[]): Promise<{
+  sites: MapSite[];
+  unplaced: number;
+}> {
+  const categories = new Map(matchResults.map((result) => [result.nctId, result.category]));
+  const sites: MapSite[] = [];
+  let unplaced = 0;
+
+  for (const trial of trials) {
+    const category = categories.get(trial.nctId);
+    if (!category) continue;
+
+    for (const location of await placeLocations(trial.locations)) {
+      if (!location.coordinates) {
+        unplaced++;
+        continue;
+      }
+      sites.push({
+        nctId: trial.nctId,
+        title: trial.title,
+        category,
+        location,
+        coordinates: location.coordinates,
+      });
+    }
+  }
+
+  return { sites, unplaced };
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function TrialMap({ trials, matchResults, patientProfile, onSelectTrial }: TrialMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layersRef = useRef<L.LayerGroup | null>(null);
+  // Kept in a ref so a new callback does not redraw the map
+  const onSelectRef = useRef(onSelectTrial);
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const [sites, setSites] = useState<MapSite[]>([]);
+  const [unplaced, setUnplaced] = useState(0);
+
+  useEffect(() => {
+    onSelectRef.current = onSelectTrial;
+  }, [onSelectTrial]);
+
+  // Create the map once; tiles come from the configured (possibly self-hosted) server
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current).setView(INITIAL_CENTER, INITIAL_ZOOM);
+    const tileUrl = getMapTileUrl();
+    if (tileUrl) {
+      L.tileLayer(tileUrl, { attribution: getMapTileAttribution(), maxZoom: 18 }).addTo(map);
+    }
+    mapRef.current = map;
+    layersRef.current = L.layerGroup().addTo(map);
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      layersRef.current = null;
+    };
+  }, []);
+
+  // Place the patient and the sites ClinicalTrials.gov did not geocode
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([resolveOrigin(patientProfile), placeSites(trials, matchResults)])
+      .then(([resolvedOrigin, placed]) => {
+        if (cancelled) return;
+        setOrigin(resolvedOrigin);
+        setSites(placed.sites);
+        setUnplaced(placed.unplaced);
+      })
+      .catch((error) => {
+        console.error('Could not place trial sites on the map:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [patientProfile, trials, matchResults]);
+
+  // Draw the origin, travel radius and sites
+  useEffect(() => {
+    const map = mapRef.current;
+    const layers = layersRef.current;
+    if (!map || !layers) return;
+
+    layers.clearLayers();
+    const bounds = L.latLngBounds([]);
+
+    for (const site of sites) {
+      L.circleMarker(toLatLng(site.coordinates), {
+        radius: 7,
+        color: '#ffffff',
+        weight: 1.5,
+        fillColor: CATEGORY_CONFIG[site.category].color,
+        fillOpacity: 0.9,
+      })
+        .bindTooltip(describeSite(site))
+        .on('click', () => onSelectRef.current(site.nctId))
+        .addTo(layers);
+      bounds.extend(toLatLng(site.coordinates));
+    }
+
+    if (origin) {
+      const radius = L.circle(toLatLng(origin), {
+        radius: patientProfile.travelRadiusMiles * METERS_PER_MILE,
+        color: ORIGIN_COLOR,
+        weight: 1,
+        fillOpacity: 0.05,
+        interactive: false,
+      }).addTo(layers);
+      radius.bringToBack();
+      L.circleMarker(toLatLng(origin), {
+        radius: 6,
+        color: '#ffffff',
+        weight: 2,
+        fillColor: ORIGIN_COLOR,
+        fillOpacity: 1,
+      })
+        .bindTooltip('Your location')
+        .addTo(layers);
+      // The radius is what the search covered, so it sets the view
+      map.fitBounds(radius.getBounds(), { padding: [20, 20] });
+    } else if (bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [20, 20], maxZoom: 10 });
+    }
+  }, [origin, sites, patientProfile.travelRadiusMiles]);
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        className="h-80 w-full rounded-lg border border-gray-200 isolate"
+        role="region"
+        aria-label="Map of trial sites"
+      />
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <span className="inline-flex items-center gap-1.5">
+          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: ORIGIN_COLOR }} />
+          Your location
+        </span>
+        {Object.entries(CATEGORY_CONFIG).map(([category, { color, label }]) => (
+          <span key={category} className="inline-flex items-center gap-1.5">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+        {unplaced > 0 && (
+          <span className="text-gray-500">
+            {unplaced} {unplaced === 1 ? 'site' : 'sites'} could not be placed on the map
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, ReactNode } from 'react';
 import type { PatientProfile, PipelineResult } from '../../lib/schemas';
+import { clearActiveRun, getActiveRun } from '../../lib/checkpoint';
 
 // ============================================================================
 // Types
@@ -28,12 +29,16 @@ interface SessionProviderProps {
 }
 
 export function SessionProvider({ children }: SessionProviderProps) {
-  const [patientProfile, setPatientProfile] = useState<PatientProfile | null>(null);
+  // A run interrupted by a reload picks up where it left off
+  const [patientProfile, setPatientProfile] = useState<PatientProfile | null>(
+    () => getActiveRun()?.patientProfile ?? null
+  );
   const [pipelineResults, setPipelineResults] = useState<PipelineResult | null>(null);
 
   const clearSession = () => {
     setPatientProfile(null);
     setPipelineResults(null);
+    clearActiveRun();
   };
 
   const value: SessionContextType = {
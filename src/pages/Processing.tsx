@@ -3,9 +3,59 @@ import { useNavigate } from 'react-router-dom';
 import { AlertCircle, RefreshCw } from 'lucide-react';
 import { ProgressIndicator } from '../components/ProgressIndicator';
 import { DisclaimerBanner } from '../components/DisclaimerBanner';
+import { TrialCard } from '../components/TrialCard';
 import { useSession } from '../context/SessionContext';
-import { runPipeline, getInitialSteps } from '../../lib/orchestrator';
-import type { PipelineStep } from '../../lib/schemas';
+import { runPipeline, getInitialProgress, applyPipelineEvent } from '../../lib/orchestrator';
+import type { PipelineProgress } from '../../lib/orchestrator';
+import { runPipelineOnServer } from '../../lib/pipeline-client';
+import { getPipelineRunner } from '../../lib/config';
+import {
+  clearActiveRun,
+  createCheckpointStore,
+  getActiveRun,
+  setActiveRunJob,
+  startActiveRun,
+} from '../../lib/checkpoint';
+import type { PatientProfile, PipelineEvent, PipelineResult } from '../../lib/schemas';
+
+const checkpointStore = createCheckpointStore();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Index of the step to highlight: the running one, else the last one reached
+ */
+function getCurrentStepIndex(progress: PipelineProgress): number {
+  const running = progress.steps.findIndex((s) => s.status === 'running');
+  if (running >= 0) return running;
+
+  let reached = 0;
+  progress.steps.forEach((s, idx) => {
+    if (s.status !== 'pending') reached = idx;
+  });
+  return reached;
+}
+
+/**
+ * The unfinished run for this profile, or a new one
+ */
+function resumeOrStartRun(patientProfile: PatientProfile) {
+  const activeRun = getActiveRun();
+  if (activeRun && JSON.stringify(activeRun.patientProfile) === JSON.stringify(patientProfile)) {
+    return activeRun;
+  }
+  if (activeRun) {
+    checkpointStore.remove(activeRun.runId).catch(() => undefined);
+  }
+  return startActiveRun(patientProfile);
+}
+
+function discardRun(runId: string): void {
+  clearActiveRun();
+  checkpointStore.remove(runId).catch(() => undefined);
+}
 
 // ============================================================================
 // Component
@@ -14,9 +64,7 @@ import type { PipelineStep } from '../../lib/schemas';
 export function Processing() {
   const navigate = useNavigate();
   const { patientProfile, setPipelineResults } = useSession();
-  const [steps, setSteps] = useState<PipelineStep[]>(getInitialSteps);
-  const [currentStep, setCurrentStep] = useState(0);
-  const [logs, setLogs] = useState<string[]>([]);
+  const [progress, setProgress] = useState<PipelineProgress>(getInitialProgress);
   const [error, setError] = useState<string | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -35,43 +83,41 @@ export function Processing() {
 
     hasStartedRef.current = true;
     setError(null);
-    setSteps(getInitialSteps());
-    setCurrentStep(0);
-    setLogs([]);
+    setProgress(getInitialProgress());
 
     abortControllerRef.current = new AbortController();
+    const abortSignal = abortControllerRef.current.signal;
+    const onEvent = (event: PipelineEvent) =>
+      setProgress((prev) => applyPipelineEvent(prev, event));
+
+    // Retrying, or reloading mid-run, continues the same run from its
+    // checkpoint, so only unfinished or failed trials are redone
+    const { runId, jobId } = resumeOrStartRun(patientProfile);
 
     try {
-      const results = await runPipeline(
-        patientProfile,
-        (step, stepLogs) => {
-          setSteps((prev) => {
-            const newSteps = [...prev];
-            const stepIndex = newSteps.findIndex((s) => s.id === step.id);
-            if (stepIndex >= 0) {
-              newSteps[stepIndex] = step;
-              // Update current step to the latest running or completed step
-              if (step.status === 'running') {
-                setCurrentStep(stepIndex);
-              }
-            }
-            return newSteps;
-          });
-
-          if (stepLogs) {
-            setLogs(stepLogs);
-          }
-        },
-        {
-          abortSignal: abortControllerRef.current.signal,
-        }
-      );
+      let results: PipelineResult;
+      if (getPipelineRunner() === 'server') {
+        // Server jobs keep their checkpoints on the server; the job id is
+        // enough to rejoin or resume one
+        results = await runPipelineOnServer(patientProfile, onEvent, {
+          abortSignal,
+          jobId,
+          onJobStarted: setActiveRunJob,
+        });
+      } else {
+        results = await runPipeline(patientProfile, onEvent, {
+          abortSignal,
+          checkpoint: { store: checkpointStore, runId },
+        });
+      }
 
       // Store results and navigate
+      discardRun(runId);
       setPipelineResults(results);
       navigate('/results');
     } catch (err) {
       if (err instanceof Error && err.message === 'Pipeline cancelled by user') {
+        discardRun(runId);
         navigate('/intake');
         return;
       }
@@ -112,6 +158,10 @@ export function Processing() {
   // Handle cancel
   const handleCancel = () => {
     abortControllerRef.current?.abort();
+    const activeRun = getActiveRun();
+    if (activeRun) {
+      discardRun(activeRun.runId);
+    }
     navigate('/intake');
   };
 
@@ -135,12 +185,29 @@ export function Processing() {
         {/* Progress Indicator */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 md:p-8">
           <ProgressIndicator
-            currentStep={currentStep}
-            steps={steps}
-            logs={logs}
+            currentStep={getCurrentStepIndex(progress)}
+            steps={progress.steps}
+            logs={progress.logs}
           />
         </div>
 
+        {/* Matches as they are scored */}
+        {!error && progress.matchResults.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Matches so far ({progress.matchResults.length})
+            </h2>
+            <div className="space-y-4">
+              {progress.matchResults.map((matchResult) => {
+                const trial = progress.trials.find((t) => t.nctId === matchResult.nctId);
+                return trial ? (
+                  <TrialCard key={matchResult.nctId} trial={trial} matchResult={matchResult} />
+                ) : null;
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Error State */}
         {error && (
           <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-4">
@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { RefreshCw, Filter, ChevronDown, ChevronUp } from 'lucide-react';
+import { RefreshCw, Filter, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
 import { TrialCard } from '../components/TrialCard';
+import { TrialMap } from '../components/TrialMap';
 import { MatchPieChart } from '../components/MatchPieChart';
 import { AudioPlayer } from '../components/AudioPlayer';
 import { PaymentModal } from '../components/PaymentModal';
@@ -12,14 +13,49 @@ import {
   getRemainingFreeMatches,
   hasUnlimitedMatches,
 } from '../../lib/stripe';
-import type { MatchCategory, MatchResult, Trial } from '../../lib/schemas';
+import { DEFAULT_COUNTRY } from '../../lib/schemas';
+import { getTrialTravelBurden } from '../../lib/travel-burden';
+import type { MatchCategory, MatchResult, PipelineErrorKind, Trial } from '../../lib/schemas';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 type FilterCategory = MatchCategory | 'all';
-type SortOption = 'score' | 'distance';
+type SortOption = 'score' | 'distance' | 'travel';
+// Most hours a month spent travelling to the easiest site, or 'any'
+type TravelLimit = 'any' | '4' | '8' | '16' | '32';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ERROR_KIND_LABELS: Record<PipelineErrorKind, string> = {
+  rate_limit: 'the service was busy',
+  timeout: 'the request took too long',
+  network: 'a connection problem',
+  not_found: 'the trial details could not be found',
+  parse: 'the trial details could not be read',
+  validation: 'the trial details could not be read',
+  unavailable: 'the service was unavailable',
+  unknown: 'an unexpected error',
+};
+
+const TRAVEL_LIMIT_LABELS: Record<TravelLimit, string> = {
+  any: 'Any amount',
+  '4': 'Up to 4 hours a month',
+  '8': 'Up to 8 hours a month',
+  '16': 'Up to 16 hours a month',
+  '32': 'Up to 32 hours a month',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function scrollToTrialCard(nctId: string): void {
+  document.getElementById(`trial-${nctId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+}
 
 // ============================================================================
 // Component
@@ -33,10 +69,14 @@ export function Results() {
   // State
   const [filterCategory, setFilterCategory] = useState<FilterCategory>('all');
   const [sortBy, setSortBy] = useState<SortOption>('score');
+  const [travelLimit, setTravelLimit] = useState<TravelLimit>('any');
   const [showFilters, setShowFilters] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentMessage, setPaymentMessage] = useState<string | null>(null);
   const [showProfileSummary, setShowProfileSummary] = useState(false);
+  const [showFailures, setShowFailures] = useState(false);
+  const [showMap, setShowMap] = useState(true);
+  const [selectedTrialId, setSelectedTrialId] = useState<string | null>(null);
 
   // Redirect if no results
   useEffect(() => {
@@ -62,19 +102,38 @@ export function Results() {
     }
   }, []);
 
+  // Bring the card of a trial picked on the map into view
+  useEffect(() => {
+    if (selectedTrialId) {
+      scrollToTrialCard(selectedTrialId);
+    }
+  }, [selectedTrialId]);
+
   if (!pipelineResults || !patientProfile) {
     return null;
   }
 
-  const { trials, matchResults, voiceScript } = pipelineResults;
+  const { trials, matchResults, voiceScript, errors } = pipelineResults;
+
+  // Trials dropped because extraction or matching failed
+  const failedTrials = errors.filter((e) => e.nctId);
 
   // Create a map of nctId to trial for easy lookup
   const trialMap = new Map<string, Trial>(
     trials.map((trial) => [trial.nctId, trial])
   );
 
+  // Monthly travel hours to a trial's easiest site; unknown without a distance
+  const getMonthlyTravelHours = (nctId: string): number => {
+    const trial = trialMap.get(nctId);
+    return (trial && getTrialTravelBurden(trial)?.monthlyHours) ?? Infinity;
+  };
+
   // Filter and sort results
   const filteredResults = matchResults.filter((result) => {
+    if (travelLimit !== 'any' && getMonthlyTravelHours(result.nctId) > Number(travelLimit)) {
+      return false;
+    }
     if (filterCategory === 'all') return true;
     return result.category === filterCategory;
   });
@@ -83,6 +142,9 @@ export function Results() {
     if (sortBy === 'score') {
       return b.score - a.score;
     }
+    if (sortBy === 'travel') {
+      return getMonthlyTravelHours(a.nctId) - getMonthlyTravelHours(b.nctId);
+    }
     // Sort by distance
     const trialA = trialMap.get(a.nctId);
     const trialB = trialMap.get(b.nctId);
@@ -97,6 +159,16 @@ export function Results() {
   const futureMatches = sortedResults.filter((r) => r.category === 'future_potential');
   const notEligible = sortedResults.filter((r) => r.category === 'not_eligible');
 
+  // Filters are cleared so the picked trial's card is shown
+  const handleSelectTrial = (nctId: string) => {
+    setFilterCategory('all');
+    setTravelLimit('any');
+    if (nctId === selectedTrialId) {
+      scrollToTrialCard(nctId);
+    }
+    setSelectedTrialId(nctId);
+  };
+
   const handleStartOver = () => {
     clearSession();
     navigate('/');
@@ -119,7 +191,12 @@ export function Results() {
             const trial = trialMap.get(result.nctId);
             if (!trial) return null;
             return (
-              <TrialCard key={result.nctId} trial={trial} matchResult={result} />
+              <TrialCard
+                key={result.nctId}
+                trial={trial}
+                matchResult={result}
+                selected={result.nctId === selectedTrialId}
+              />
             );
           })}
         </div>
@@ -194,14 +271,44 @@ export function Results() {
                   <dl className="grid grid-cols-2 gap-2">
                     <dt className="text-gray-500">Diagnosis:</dt>
                     <dd className="text-gray-900">{patientProfile.diagnosis}</dd>
+                    {patientProfile.dateOfBirth && (
+                      <>
+                        <dt className="text-gray-500">Date of Birth:</dt>
+                        <dd className="text-gray-900">{patientProfile.dateOfBirth}</dd>
+                      </>
+                    )}
+                    {patientProfile.sex && (
+                      <>
+                        <dt className="text-gray-500">Sex:</dt>
+                        <dd className="text-gray-900 capitalize">{patientProfile.sex}</dd>
+                      </>
+                    )}
                     <dt className="text-gray-500">Stage:</dt>
                     <dd className="text-gray-900">{patientProfile.stage}</dd>
                     <dt className="text-gray-500">ECOG Score:</dt>
                     <dd className="text-gray-900">{patientProfile.ecogScore}</dd>
                     <dt className="text-gray-500">Location:</dt>
                     <dd className="text-gray-900">
-                      {patientProfile.zipcode} (within {patientProfile.travelRadiusMiles} mi)
+                      {[
+                        patientProfile.zipcode ||
+                          (patientProfile.coordinates &&
+                            `${patientProfile.coordinates.lat}, ${patientProfile.coordinates.lng}`),
+                        patientProfile.country !== DEFAULT_COUNTRY && patientProfile.country,
+                      ]
+                        .filter(Boolean)
+                        .join(', ')}{' '}
+                      (within {patientProfile.travelRadiusMiles} mi)
                     </dd>
+                    {patientProfile.treatments.length > 0 && (
+                      <>
+                        <dt className="text-gray-500">Treatments:</dt>
+                        <dd className="text-gray-900">
+                          {patientProfile.treatments
+                            .map((t) => (t.line ? `${t.drug} (line ${t.line})` : t.drug))
+                            .join(', ')}
+                        </dd>
+                      </>
+                    )}
                     {patientProfile.biomarkers.length > 0 && (
                       <>
                         <dt className="text-gray-500">Biomarkers:</dt>
@@ -222,6 +329,55 @@ export function Results() {
           </div>
         </div>
 
+        {/* Trials that could not be analyzed */}
+        {failedTrials.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-8">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <h3 className="font-medium text-amber-800">
+                  {failedTrials.length} {failedTrials.length === 1 ? 'trial' : 'trials'} could
+                  not be analyzed
+                </h3>
+                <p className="mt-1 text-sm text-amber-700">
+                  {failedTrials.length === 1 ? 'It is' : 'They are'} not included in your
+                  matches below. You can read about {failedTrials.length === 1 ? 'it' : 'them'} on
+                  ClinicalTrials.gov or try again later.
+                </p>
+                <button
+                  onClick={() => setShowFailures(!showFailures)}
+                  className="mt-2 inline-flex items-center text-sm text-amber-800 hover:text-amber-900"
+                  aria-expanded={showFailures}
+                >
+                  {showFailures ? (
+                    <ChevronUp className="w-4 h-4 mr-1" />
+                  ) : (
+                    <ChevronDown className="w-4 h-4 mr-1" />
+                  )}
+                  {showFailures ? 'Hide details' : 'Show details'}
+                </button>
+                {showFailures && (
+                  <ul className="mt-2 space-y-1 text-sm text-amber-800">
+                    {failedTrials.map((failure) => (
+                      <li key={`${failure.stage}-${failure.nctId}`}>
+                        <a
+                          href={`https://clinicaltrials.gov/study/${failure.nctId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-medium underline hover:text-amber-900"
+                        >
+                          {failure.nctId}
+                        </a>
+                        {' '}— {ERROR_KIND_LABELS[failure.kind]}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Voice Summary */}
         {voiceScript && (
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
@@ -247,6 +403,34 @@ export function Results() {
           </div>
         )}
 
+        {/* Map */}
+        {trials.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Trial Sites</h2>
+              <button
+                onClick={() => setShowMap(!showMap)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                {showMap ? 'Hide map' : 'Show map'}
+              </button>
+            </div>
+            {showMap && (
+              <>
+                <p className="text-sm text-gray-500 mb-3">
+                  Every site of every matched trial. Select a site to see its trial.
+                </p>
+                <TrialMap
+                  trials={trials}
+                  matchResults={matchResults}
+                  patientProfile={patientProfile}
+                  onSelectTrial={handleSelectTrial}
+                />
+              </>
+            )}
+          </div>
+        )}
+
         {/* Filters */}
         <div className="mb-6">
           <button
@@ -287,6 +471,24 @@ export function Results() {
                 >
                   <option value="score">Match Score</option>
                   <option value="distance">Distance</option>
+                  <option value="travel">Travel Burden</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Travel burden
+                </label>
+                <select
+                  value={travelLimit}
+                  onChange={(e) => setTravelLimit(e.target.value as TravelLimit)}
+                  className="rounded-md border-gray-300 text-sm"
+                >
+                  {Object.entries(TRAVEL_LIMIT_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -307,7 +509,12 @@ export function Results() {
               const trial = trialMap.get(result.nctId);
               if (!trial) return null;
               return (
-                <TrialCard key={result.nctId} trial={trial} matchResult={result} />
+                <TrialCard
+                  key={result.nctId}
+                  trial={trial}
+                  matchResult={result}
+                  selected={result.nctId === selectedTrialId}
+                />
               );
             })}
           </div>
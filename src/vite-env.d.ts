@@ -1,11 +1,14 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_TOOLHOUSE_API_KEY: string;
-  readonly VITE_RTRVR_API_KEY: string;
-  readonly VITE_ELEVENLABS_API_KEY: string;
+  readonly VITE_API_BASE?: string;
   readonly VITE_STRIPE_PUBLISHABLE_KEY: string;
   readonly VITE_CLINICALTRIALS_API_BASE?: string;
+  readonly VITE_CLINICALTRIALS_DATA_MODE?: 'live' | 'mock' | 'fixture';
+  readonly VITE_LLM_PROVIDER?: 'proxy' | 'stub' | 'none';
+  readonly VITE_PIPELINE_RUNNER?: 'browser' | 'server';
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { runAdvocateAgent } from '../agents/advocate';
+import { resetConfigCache, setLLMProviderName } from '../lib/config';
+import { setLLMProviderOverride } from '../lib/llm-provider';
+import { PatientProfileSchema } from '../lib/schemas';
+import type { MatchResult } from '../lib/schemas';
+import advocateFixture from '../fixtures/llm/patient-advocate/default.json';
+
+const patientProfile = PatientProfileSchema.parse({
+  diagnosis: 'Non-small cell lung cancer',
+  stage: 'IV',
+  ecogScore: 1,
+  zipcode: '10001',
+  dateOfBirth: '1960-01-01',
+});
+
+const matchResults: MatchResult[] = [
+  {
+    nctId: 'NCT00000001',
+    score: 82,
+    category: 'strong_match',
+    matchingFactors: [{ factor: 'Diagnosis matches', weight: 10 }],
+    blockingFactors: [],
+    uncertainFactors: [],
+    summary: 'Your diagnosis and health match what this trial is looking for.',
+    criteriaTrace: [],
+    scoringProfileId: 'general-v1',
+    method: 'rules',
+    disagreements: [],
+  },
+];
+
+afterEach(() => {
+  setLLMProviderOverride(null);
+  resetConfigCache();
+});
+
+describe('runAdvocateAgent', () => {
+  it('has the stub model write the script', async () => {
+    setLLMProviderName('stub');
+
+    const script = await runAdvocateAgent(
+      { matchResults, patientProfile, language: 'en' },
+      { synthesizeAudio: false }
+    );
+
+    // Answered by fixtures/llm/patient-advocate/default.json
+    expect(script.text).toBe(advocateFixture.output.text);
+    expect(script.audioUrl).toBe('');
+    expect(script.duration).toBeGreaterThan(0);
+  });
+
+  it('fills in a template without a model', async () => {
+    setLLMProviderName('none');
+
+    const script = await runAdvocateAgent(
+      { matchResults, patientProfile, language: 'es' },
+      { synthesizeAudio: false }
+    );
+
+    expect(script.text).toMatch(/^Hola\. /);
+    expect(script.text).toContain('scores 82 out of 100');
+    expect(script.text).toContain('educational purposes only');
+  });
+
+  it('falls back to a template when the model call fails', async () => {
+    setLLMProviderOverride({
+      name: 'stub',
+      model: 'failing-stub',
+      complete: async () => {
+        throw new Error('model unavailable');
+      },
+    });
+
+    const script = await runAdvocateAgent(
+      { matchResults, patientProfile, language: 'en' },
+      { synthesizeAudio: false }
+    );
+
+    expect(script.text).toMatch(/^Hello\. I've found some promising clinical trial options/);
+  });
+});
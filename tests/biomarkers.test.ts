@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { formatBiomarker, hasBiomarkerFor, matchBiomarker, parseBiomarkers } from '../lib/biomarkers';
+
+const parsed = (text: string) => parseBiomarkers(text).map(formatBiomarker);
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+describe('parseBiomarkers', () => {
+  it.each([
+    ['EGFR+', ['EGFR positive']],
+    ['EGFR-', ['EGFR negative']],
+    ['EGFR exon 19 deletion', ['EGFR Ex19del']],
+    ['T790M resistance mutation', ['EGFR T790M']],
+    ['ERBB2 mutation', ['HER2 mutation']],
+    ['HER2 amplified', ['HER2 amplification']],
+    ['PD-L1 high', ['PD-L1 ≥50%']],
+    ['PD-L1 tumor proportion score (TPS) ≥ 50%', ['PD-L1 ≥50%']],
+    ['MSS', ['MSI-H negative']],
+    ['MET exon 14 skipping', ['MET Ex14 skipping']],
+  ])('resolves %s', (text, expected) => {
+    expect(parsed(text)).toEqual(expected);
+  });
+
+  it('gives each gene of a shared description its own biomarker', () => {
+    expect(parsed('Documented EGFR, ALK or ROS1 genomic alteration')).toEqual([
+      'EGFR positive',
+      'ALK positive',
+      'ROS1 positive',
+    ]);
+    expect(parsed('EGFR mutation positive (Ex19del or L858R)')).toEqual([
+      'EGFR Ex19del',
+      'EGFR L858R',
+    ]);
+  });
+
+  it('keeps negation with the gene it applies to', () => {
+    expect(parsed('No EGFR mutation, ALK fusion positive')).toEqual([
+      'EGFR mutation negative',
+      'ALK fusion',
+    ]);
+  });
+
+  it('ignores ordinary words that look like gene names', () => {
+    expect(parseBiomarkers('patient met criteria')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+describe('matchBiomarker', () => {
+  const check = (patient: string, required: string) =>
+    parseBiomarkers(required).map((r) => matchBiomarker(parseBiomarkers(patient), r));
+
+  it('matches specific alterations and synonyms', () => {
+    expect(check('EGFR exon 19 deletion', 'EGFR mutation positive (Ex19del or L858R)')).toEqual([
+      true,
+      false,
+    ]);
+    expect(check('HER2 mutation', 'ERBB2 mutation')).toEqual([true]);
+  });
+
+  it('rules out negative results and different alterations', () => {
+    expect(check('EGFR negative', 'EGFR mutation positive')).toEqual([false]);
+    expect(check('HER2 amplified', 'HER2 activating mutation')).toEqual([false]);
+  });
+
+  it('compares expression levels against thresholds', () => {
+    expect(check('PD-L1 >50%', 'PD-L1 TPS ≥ 50%')).toEqual([true]);
+    expect(check('PD-L1 30%', 'PD-L1 TPS ≥ 50%')).toEqual([false]);
+    // ">40%" may or may not reach 50%
+    expect(check('PD-L1 >40%', 'PD-L1 ≥ 50%')).toEqual([null]);
+  });
+
+  it('cannot decide from results that are too vague or missing', () => {
+    expect(check('EGFR+', 'EGFR mutation positive (Ex19del or L858R)')).toEqual([null, null]);
+    expect(check('ALK negative', 'KRAS G12C')).toEqual([null]);
+  });
+});
+
+describe('hasBiomarkerFor', () => {
+  it('looks for any result for the gene', () => {
+    const patient = parseBiomarkers('EGFR negative, PD-L1 30%');
+
+    expect(hasBiomarkerFor(patient, 'EGFR')).toBe(true);
+    expect(hasBiomarkerFor(patient, 'ALK')).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildSearchQuery,
+  clearStudyCache,
+  createClinicalTrialsClient,
+  fetchStudy,
+  fixtureSlug,
+  searchStudies,
+} from '../lib/clinicaltrials';
+import { resetConfigCache, setClinicalTrialsDataMode } from '../lib/config';
+import { runScoutAgent } from '../agents/scout';
+
+// Recorded in fixtures/clinicaltrials/non-small-cell-lung-cancer.json as two pages
+const CONDITION = 'Non-small cell lung cancer';
+
+const nctIds = (studies: Array<{ protocolSection: { identificationModule: { nctId: string } } }>) =>
+  studies.map((s) => s.protocolSection.identificationModule.nctId);
+
+// ============================================================================
+// Query Construction
+// ============================================================================
+
+describe('buildSearchQuery', () => {
+  it('filters by distance when the patient can be placed', () => {
+    const query = buildSearchQuery(
+      { condition: CONDITION, coordinates: { lat: 40.75, lng: -73.99 }, radiusMiles: 50, country: 'United States' },
+      100
+    );
+
+    expect(query.get('filter.geo')).toBe('distance(40.75,-73.99,50mi)');
+    expect(query.get('query.locn')).toBeNull();
+    expect(query.get('filter.overallStatus')).toBe('RECRUITING');
+  });
+
+  it('falls back to the country without coordinates', () => {
+    const query = buildSearchQuery({ condition: CONDITION, country: 'Canada' }, 100);
+
+    expect(query.get('filter.geo')).toBeNull();
+    expect(query.get('query.locn')).toBe('Canada');
+  });
+
+  it('normalizes phases and carries the page token', () => {
+    const query = buildSearchQuery({ condition: CONDITION, phases: ['Phase 2', 'phase3'] }, 20, 'abc');
+
+    expect(query.get('query.term')).toBe(
+      'AREA[StudyType]INTERVENTIONAL AND AREA[Phase](PHASE2 OR PHASE3)'
+    );
+    expect(query.get('pageSize')).toBe('20');
+    expect(query.get('pageToken')).toBe('abc');
+  });
+});
+
+describe('fixtureSlug', () => {
+  it('names fixture files after the condition', () => {
+    expect(fixtureSlug(CONDITION)).toBe('non-small-cell-lung-cancer');
+    expect(fixtureSlug('  Breast Cancer (HER2+) ')).toBe('breast-cancer-her2');
+  });
+});
+
+// ============================================================================
+// Fixture Replay
+// ============================================================================
+
+describe('searchStudies in fixture mode', () => {
+  const client = createClinicalTrialsClient('fixture');
+
+  afterEach(() => {
+    clearStudyCache();
+  });
+
+  it('follows nextPageToken through every recorded page', async () => {
+    const result = await searchStudies(client, { condition: CONDITION });
+
+    expect(nctIds(result.studies)).toEqual(['NCT05048797', 'NCT04294810', 'NCT05633667']);
+    expect(result.totalCount).toBe(3);
+  });
+
+  it('stops after maxPages, keeping the first page total', async () => {
+    const result = await searchStudies(client, { condition: CONDITION }, { maxPages: 1 });
+
+    expect(nctIds(result.studies)).toEqual(['NCT05048797', 'NCT04294810']);
+    expect(result.totalCount).toBe(3);
+  });
+
+  it('reports a condition with no recording', async () => {
+    await expect(searchStudies(client, { condition: 'Glioblastoma' })).rejects.toThrow(
+      'No recorded ClinicalTrials.gov fixture for "Glioblastoma"'
+    );
+  });
+
+  it('finds single studies in the recordings', async () => {
+    const study = await fetchStudy(client, 'NCT05633667');
+
+    expect(study?.protocolSection.identificationModule.briefTitle).toMatch(/Antibody-Drug Conjugate/);
+    expect(await fetchStudy(client, 'NCT00000000')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Transform
+// ============================================================================
+
+describe('runScoutAgent in fixture mode', () => {
+  beforeEach(() => {
+    setClinicalTrialsDataMode('fixture');
+  });
+
+  afterEach(() => {
+    resetConfigCache();
+    clearStudyCache();
+  });
+
+  it('turns recorded studies into trials, least travel first', async () => {
+    const output = await runScoutAgent({
+      diagnosis: CONDITION,
+      country: 'United States',
+      zipcode: '10001',
+      travelRadiusMiles: 50,
+    });
+
+    expect(output.totalFound).toBe(3);
+    expect(output.trials.map((t) => t.nctId)).toEqual(['NCT04294810', 'NCT05048797', 'NCT05633667']);
+
+    const [nearest] = output.trials;
+    expect(nearest).toMatchObject({
+      title: 'Pembrolizumab Plus Investigational Agent in PD-L1 High NSCLC',
+      phase: 'Phase 2',
+      status: 'RECRUITING',
+      sponsor: 'Merck Sharp & Dohme LLC',
+      interventions: ['Pembrolizumab'],
+      url: 'https://clinicaltrials.gov/study/NCT04294810',
+      visitSchedule: { intervalDays: 21, source: 'protocol', basis: 'every 3 weeks' },
+    });
+    expect(nearest.locations[0]).toMatchObject({
+      facility: 'Memorial Sloan Kettering Cancer Center',
+      city: 'New York',
+      coordinates: { lat: 40.71427, lng: -74.00597 },
+    });
+    expect(nearest.locations[0].distance).toBeLessThan(5);
+    expect(nearest.locations[0].travelBurden?.likelyFlight).toBe(false);
+  });
+
+  it('keeps sites outside the radius, with their distances', async () => {
+    const output = await runScoutAgent({
+      diagnosis: CONDITION,
+      country: 'United States',
+      zipcode: '10001',
+      travelRadiusMiles: 50,
+    });
+    const farthest = output.trials[2];
+
+    expect(farthest.locations.map((l) => l.city)).toEqual(['Houston', 'Palo Alto']);
+    expect(farthest.locations.every((l) => l.distance !== undefined && l.distance > 1000)).toBe(true);
+  });
+});
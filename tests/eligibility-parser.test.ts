@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyCriterion,
+  extractConstraints,
+  parseEligibilityText,
+  splitEligibilityText,
+} from '../lib/eligibility-parser';
+import { EligibilitySchema } from '../lib/schemas';
+
+// ============================================================================
+// Text Splitting
+// ============================================================================
+
+describe('splitEligibilityText', () => {
+  it('splits on the headings and joins wrapped lines', () => {
+    const text = [
+      'Inclusion Criteria:',
+      '',
+      '* Age 18 or older',
+      '* Histologically confirmed NSCLC with',
+      '  measurable disease',
+      '',
+      'Exclusion Criteria:',
+      '',
+      '1. Active CNS metastases',
+      '2) Prior EGFR TKI',
+    ].join('\n');
+
+    expect(splitEligibilityText(text)).toEqual({
+      inclusion: ['Age 18 or older', 'Histologically confirmed NSCLC with measurable disease'],
+      exclusion: ['Active CNS metastases', 'Prior EGFR TKI'],
+    });
+  });
+});
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+describe('classifyCriterion', () => {
+  it.each([
+    ['No prior EGFR TKI therapy', 'treatment'],
+    ['Chemotherapy within 14 days prior to first dose', 'treatment'],
+    ['EGFR exon 19 deletion or L858R mutation', 'biomarker'],
+    ['Negative serum pregnancy test within 7 days prior to first dose', 'demographics'],
+    ['Stage IIIB or IV', 'diagnosis'],
+    ['ECOG performance status 0-1', 'other'],
+  ])('%s is %s', (text, category) => {
+    expect(classifyCriterion(text)).toBe(category);
+  });
+});
+
+// ============================================================================
+// Constraints
+// ============================================================================
+
+describe('extractConstraints', () => {
+  it('reads performance status ranges and bounds', () => {
+    expect(extractConstraints('ECOG performance status 0-1')).toEqual([
+      { type: 'performance_status', scale: 'ecog', min: 0, max: 1 },
+    ]);
+    expect(extractConstraints('ECOG ≤ 2')).toEqual([
+      { type: 'performance_status', scale: 'ecog', max: 2 },
+    ]);
+    expect(extractConstraints('Karnofsky ≥ 70')).toEqual([
+      { type: 'performance_status', scale: 'karnofsky', min: 70 },
+    ]);
+  });
+
+  it('reads a listed performance status as the range it spans', () => {
+    for (const text of [
+      'ECOG performance status of 0, 1 or 2',
+      'ECOG performance status 0, 1, or 2',
+      'ECOG performance status 0-2',
+    ]) {
+      expect(extractConstraints(text)).toEqual([
+        { type: 'performance_status', scale: 'ecog', min: 0, max: 2 },
+      ]);
+    }
+    expect(extractConstraints('ECOG performance status ≤ 2')).toEqual([
+      { type: 'performance_status', scale: 'ecog', max: 2 },
+    ]);
+  });
+
+  it('reads lab thresholds, sharing a value across a conjunction', () => {
+    expect(extractConstraints('Platelets ≥ 100,000/µL')).toEqual([
+      { type: 'lab', analyte: 'platelets', comparator: '>=', value: 100000, unit: '/µL' },
+    ]);
+    expect(extractConstraints('AST and ALT ≤ 2.5 x ULN')).toEqual([
+      { type: 'lab', analyte: 'ast', comparator: '<=', value: 2.5, unit: 'x ULN' },
+      { type: 'lab', analyte: 'alt', comparator: '<=', value: 2.5, unit: 'x ULN' },
+    ]);
+  });
+
+  it('reads therapy washouts and which way their window runs', () => {
+    expect(extractConstraints('Chemotherapy within 14 days prior to first dose')).toContainEqual(
+      { type: 'washout', days: 14, appliesTo: 'Chemotherapy', window: 'within' }
+    );
+    expect(extractConstraints('At least 4 weeks since the last dose of chemotherapy')).toEqual([
+      { type: 'washout', days: 28, appliesTo: 'chemotherapy', window: 'since' },
+    ]);
+    expect(extractConstraints('Washout period of 2 weeks')).toEqual([
+      { type: 'washout', days: 14, appliesTo: '', window: 'since' },
+    ]);
+  });
+
+  it('finds no washout in windows that are not about therapy', () => {
+    expect(extractConstraints('Negative serum pregnancy test within 7 days prior to first dose')).toEqual([]);
+    expect(
+      extractConstraints('Measurable disease per RECIST 1.1 within 28 days of enrollment')
+        .filter((c) => c.type === 'washout')
+    ).toEqual([]);
+  });
+
+  it('skips washout windows of zero days', () => {
+    expect(
+      extractConstraints('Radiotherapy within 0 days').filter((c) => c.type === 'washout')
+    ).toEqual([]);
+  });
+
+  it('reads stage lists and ranges', () => {
+    expect(extractConstraints('Stage IIIB or IV')).toEqual([
+      { type: 'stage', stages: ['IIIB', 'IV'], source: 'explicit' },
+    ]);
+    expect(extractConstraints('Stage III-IV')).toEqual([
+      { type: 'stage', stages: ['III', 'IV'], source: 'explicit' },
+    ]);
+  });
+
+  it('maps sub-stages the schema does not list to their stage group', () => {
+    expect(extractConstraints('Stage IIIB, IIIC or IVC')).toEqual([
+      { type: 'stage', stages: ['IIIB', 'IIIC', 'IV'], source: 'explicit' },
+    ]);
+  });
+
+  it('infers stages from descriptive wording', () => {
+    expect(extractConstraints('Locally advanced NSCLC')).toEqual([
+      { type: 'stage', stages: ['III'], source: 'descriptor' },
+    ]);
+    expect(extractConstraints('Advanced or metastatic NSCLC')).toEqual([
+      { type: 'stage', stages: ['III', 'IV'], source: 'descriptor' },
+    ]);
+    // Treatment history, not the current stage
+    expect(extractConstraints('Prior therapy for advanced NSCLC')).toEqual([]);
+  });
+
+  it('reads prior lines and prior treatments', () => {
+    expect(extractConstraints('At least 2 prior lines of therapy')).toEqual([
+      { type: 'prior_lines', min: 2 },
+    ]);
+    expect(extractConstraints('No prior systemic therapy')).toEqual([
+      { type: 'prior_lines', max: 0 },
+      { type: 'prior_treatment', drugClasses: ['systemic_therapy'], drugs: [], negated: true },
+    ]);
+    expect(extractConstraints('Prior therapy with an anti-PD-1 agent')).toEqual([
+      { type: 'prior_treatment', drugClasses: ['anti_pd1'], drugs: [], negated: false },
+    ]);
+  });
+
+  it('reads age limits, but not other spans of years', () => {
+    expect(extractConstraints('Age ≥ 18 years')).toEqual([{ type: 'age', min: 18 }]);
+    expect(extractConstraints('Men and women aged 18-75 years')).toEqual([
+      { type: 'age', min: 18, max: 75 },
+    ]);
+    expect(extractConstraints('18 years of age or older')).toEqual([{ type: 'age', min: 18 }]);
+    expect(extractConstraints('Postmenopausal for at least 2 years')).toEqual([]);
+  });
+
+  it('reads biomarker requirements outside treatment history', () => {
+    expect(extractConstraints('EGFR exon 19 deletion or L858R mutation')).toEqual([
+      { type: 'biomarker', gene: 'EGFR', alteration: 'Ex19del', status: 'positive' },
+      { type: 'biomarker', gene: 'EGFR', alteration: 'L858R', status: 'positive' },
+    ]);
+    expect(
+      extractConstraints('No prior EGFR TKI therapy').filter((c) => c.type === 'biomarker')
+    ).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseEligibilityText', () => {
+  it('classifies each criterion under its heading', () => {
+    const parsed = parseEligibilityText([
+      'Inclusion Criteria:',
+      '- Stage IIIB or IV',
+      'Exclusion Criteria:',
+      '- Chemotherapy within 14 days prior to first dose',
+    ].join('\n'));
+
+    expect(parsed.inclusionCriteria).toMatchObject([{ criterion: 'Stage IIIB or IV', category: 'diagnosis' }]);
+    expect(parsed.exclusionCriteria).toMatchObject([
+      { criterion: 'Chemotherapy within 14 days prior to first dose', category: 'treatment' },
+    ]);
+  });
+
+  it('produces eligibility that passes schema validation', () => {
+    const parsed = parseEligibilityText([
+      'Inclusion Criteria:',
+      '- Stage IVC non-small cell lung cancer',
+      '- ECOG 0-1',
+      'Exclusion Criteria:',
+      '- Radiotherapy within 0 days of enrollment',
+      '- Chemotherapy within 14 days prior to first dose',
+    ].join('\n'));
+
+    // Eligibility that fails validation is dropped from saved checkpoints
+    expect(() =>
+      EligibilitySchema.parse({ nctId: 'NCT00000001', ...parsed, ageRange: { min: 18 } })
+    ).not.toThrow();
+    expect(parsed.inclusionCriteria[0]).toMatchObject({
+      category: 'diagnosis',
+      constraints: [{ type: 'stage', stages: ['IV'] }],
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { runMatcherAgent } from '../agents/matcher';
+import { resetConfigCache, setLLMProviderName } from '../lib/config';
+import { parseEligibilityText } from '../lib/eligibility-parser';
+import { createStubProvider, hashAgentInput, setLLMProviderOverride } from '../lib/llm-provider';
+import { EligibilitySchema, PatientProfileSchema } from '../lib/schemas';
+import type { MatchResult } from '../lib/schemas';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const NCT_ID = 'NCT00000001';
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+}
+
+function profile(overrides: Record<string, unknown> = {}) {
+  return PatientProfileSchema.parse({
+    diagnosis: 'Non-small cell lung cancer',
+    stage: 'IV',
+    ecogScore: 1,
+    zipcode: '10001',
+    dateOfBirth: '1960-01-01',
+    sex: 'female',
+    ...overrides,
+  });
+}
+
+function eligibility(text: string) {
+  return EligibilitySchema.parse({
+    nctId: NCT_ID,
+    ...parseEligibilityText(text),
+    ageRange: { min: 18 },
+  });
+}
+
+async function match(
+  patient: ReturnType<typeof profile>,
+  criteria: ReturnType<typeof eligibility>
+): Promise<MatchResult> {
+  return runMatcherAgent({ patientProfile: patient, eligibilityCriteria: criteria, nctId: NCT_ID });
+}
+
+/**
+ * Answer the matcher's model call for this patient and trial with `output`
+ */
+function stubModel(
+  patient: ReturnType<typeof profile>,
+  criteria: ReturnType<typeof eligibility>,
+  output: Record<string, unknown>
+): void {
+  const inputHash = hashAgentInput({ patientProfile: patient, eligibilityCriteria: criteria, nctId: NCT_ID });
+  setLLMProviderOverride(createStubProvider({ [`clinical-matcher/${inputHash}`]: output }));
+}
+
+function verdictOf(result: MatchResult, criterion: string) {
+  return result.criteriaTrace.find((t) => t.criterion === criterion)?.verdict;
+}
+
+// Rules alone unless a test gives the matcher a model
+beforeEach(() => {
+  setLLMProviderName('none');
+});
+
+afterEach(() => {
+  setLLMProviderOverride(null);
+  resetConfigCache();
+});
+
+// ============================================================================
+// Washouts
+// ============================================================================
+
+describe('washout checks', () => {
+  const onCarboplatin = profile({ treatments: [{ drug: 'carboplatin', startDate: daysAgo(30) }] });
+
+  it('does not treat inclusion windows about tests or scans as washouts', async () => {
+    const result = await match(
+      onCarboplatin,
+      eligibility([
+        'Inclusion Criteria:',
+        '- Negative serum pregnancy test within 7 days prior to first dose',
+        '- Measurable disease per RECIST 1.1 within 28 days of enrollment',
+      ].join('\n'))
+    );
+
+    expect(result.blockingFactors).toEqual([]);
+    expect(verdictOf(result, 'Negative serum pregnancy test within 7 days prior to first dose')).toBe('unknown');
+  });
+
+  it('meets an inclusion window that asks for recent therapy', async () => {
+    const result = await match(
+      onCarboplatin,
+      eligibility('Inclusion Criteria:\n- Received platinum chemotherapy within 6 months')
+    );
+
+    expect(result.blockingFactors).toEqual([]);
+    expect(verdictOf(result, 'Received platinum chemotherapy within 6 months')).toBe('met');
+  });
+
+  it('excludes a patient still on a therapy the trial needs time off', async () => {
+    const result = await match(
+      onCarboplatin,
+      eligibility('Exclusion Criteria:\n- Chemotherapy within 14 days prior to first dose')
+    );
+
+    expect(result.category).toBe('not_eligible');
+    expect(result.method).toBe('rules');
+    expect(result.blockingFactors).toEqual([
+      {
+        factor: 'Treatment History',
+        reason: 'carboplatin is ongoing; trial requires 14 days off chemotherapy',
+      },
+    ]);
+  });
+
+  it('does not exclude a patient whose therapy ended long enough ago', async () => {
+    const result = await match(
+      profile({ treatments: [{ drug: 'carboplatin', startDate: daysAgo(90), endDate: daysAgo(60) }] }),
+      eligibility('Exclusion Criteria:\n- Chemotherapy within 14 days prior to first dose')
+    );
+
+    expect(result.blockingFactors).toEqual([]);
+    expect(verdictOf(result, 'Chemotherapy within 14 days prior to first dose')).toBe('not_met');
+  });
+
+  it('asks for confirmation when the washout target is unknown', async () => {
+    const result = await match(
+      onCarboplatin,
+      eligibility('Exclusion Criteria:\n- Blood transfusion within 14 days')
+    );
+
+    expect(result.blockingFactors).toEqual([]);
+    expect(result.uncertainFactors).toContain('Confirm no Blood transfusion in the last 14 days');
+    expect(verdictOf(result, 'Blood transfusion within 14 days')).toBe('unknown');
+  });
+});
+
+// ============================================================================
+// Profile Checks
+// ============================================================================
+
+describe('profile checks', () => {
+  it('excludes a performance status outside the range', async () => {
+    const result = await match(
+      profile({ ecogScore: 2 }),
+      eligibility('Inclusion Criteria:\n- ECOG performance status 0-1')
+    );
+
+    expect(result.blockingFactors).toEqual([
+      { factor: 'ECOG Score', reason: 'ECOG score 2 outside required range (ECOG 0-1)' },
+    ]);
+  });
+
+  it('excludes a stage the trial does not take', async () => {
+    const result = await match(
+      profile({ stage: 'IIIA' }),
+      eligibility('Inclusion Criteria:\n- Stage IV non-small cell lung cancer')
+    );
+
+    expect(result.blockingFactors).toEqual([
+      { factor: 'Stage', reason: 'Stage IIIA is not among required stages (Stage IV)' },
+    ]);
+  });
+
+  it('matches and rules out biomarkers', async () => {
+    const criteria = eligibility('Inclusion Criteria:\n- EGFR exon 19 deletion or L858R mutation');
+
+    const positive = await match(profile({ biomarkers: ['EGFR exon 19 deletion'] }), criteria);
+    expect(positive.blockingFactors).toEqual([]);
+    expect(verdictOf(positive, 'EGFR exon 19 deletion or L858R mutation')).toBe('met');
+
+    const negative = await match(profile({ biomarkers: ['EGFR negative'] }), criteria);
+    expect(negative.blockingFactors.map((f) => f.factor)).toEqual(['Biomarker']);
+  });
+
+  it('excludes an age outside the trial range', async () => {
+    const result = await match(
+      profile({ dateOfBirth: undefined, age: 16 }),
+      eligibility('Inclusion Criteria:\n- Histologically confirmed NSCLC')
+    );
+
+    expect(result.blockingFactors).toEqual([
+      { factor: 'Demographics', reason: "Age 16 is outside the trial's age range (18-120)" },
+    ]);
+  });
+
+  it('holds a patient to a minimum age given in months', async () => {
+    const criteria = {
+      ...eligibility('Inclusion Criteria:\n- Histologically confirmed neuroblastoma'),
+      ageRange: { min: 0.5, max: 21 },
+    };
+
+    const infant = await match(profile({ dateOfBirth: daysAgo(90) }), criteria);
+    expect(infant.blockingFactors).toEqual([
+      { factor: 'Demographics', reason: "Age 0 is outside the trial's age range (0.5-21)" },
+    ]);
+
+    const toddler = await match(profile({ dateOfBirth: daysAgo(300) }), criteria);
+    expect(toddler.blockingFactors).toEqual([]);
+  });
+
+  it('excludes prior treatment with an excluded class, by brand name', async () => {
+    const result = await match(
+      profile({ treatments: [{ drug: 'Keytruda' }] }),
+      eligibility('Exclusion Criteria:\n- Prior therapy with an anti-PD-1 agent')
+    );
+
+    expect(result.blockingFactors).toEqual([
+      { factor: 'Treatment History', reason: 'Prior anti-PD-1 is excluded (Keytruda)' },
+    ]);
+    expect(result.criteriaTrace[0].decidedBy).toEqual({ kind: 'rule', id: 'prior_treatment' });
+  });
+
+  it('excludes a sex the trial does not enroll', async () => {
+    const result = await match(
+      profile(),
+      { ...eligibility('Inclusion Criteria:\n- Histologically confirmed NSCLC'), sex: 'MALE' }
+    );
+
+    expect(result.blockingFactors).toEqual([
+      { factor: 'Demographics', reason: 'Trial enrolls male participants only' },
+    ]);
+  });
+
+  it('traces the age verdict to the criterion that states the age limit', async () => {
+    const result = await match(
+      profile({ dateOfBirth: undefined, age: 16 }),
+      eligibility([
+        'Inclusion Criteria:',
+        '- Age ≥ 18 years',
+        '- Female patients postmenopausal for at least 2 years',
+      ].join('\n'))
+    );
+
+    expect(verdictOf(result, 'Age ≥ 18 years')).toBe('not_met');
+    expect(verdictOf(result, 'Female patients postmenopausal for at least 2 years')).toBe('unknown');
+  });
+
+  it('asks about a patient cohort only when the trial says it takes healthy volunteers', async () => {
+    const criteria = eligibility('Inclusion Criteria:\n- Histologically confirmed NSCLC');
+    const question = 'Trial also enrolls healthy volunteers; confirm it has a patient cohort';
+
+    const unstated = await match(profile(), criteria);
+    expect(unstated.uncertainFactors).not.toContain(question);
+
+    const stated = await match(profile(), { ...criteria, acceptsHealthyVolunteers: true });
+    expect(stated.uncertainFactors).toContain(question);
+  });
+});
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+describe('reconciling rules with the model', () => {
+  const MODEL_OUTPUT = {
+    score: 70,
+    category: 'possible_match',
+    matchingFactors: [{ factor: 'Diagnosis matches the trial', weight: 10 }],
+    blockingFactors: [],
+    uncertainFactors: [],
+    summary: 'This trial could be a fit.',
+  };
+
+  it('keeps a rule exclusion the model disagrees with', async () => {
+    const patient = profile({ ecogScore: 2 });
+    const criteria = eligibility('Inclusion Criteria:\n- ECOG performance status 0-1');
+    stubModel(patient, criteria, {
+      ...MODEL_OUTPUT,
+      criteriaTrace: [
+        {
+          criterion: 'ECOG performance status 0-1',
+          criterionType: 'inclusion',
+          verdict: 'met',
+          profileField: 'ecogScore',
+        },
+      ],
+    });
+
+    const result = await match(patient, criteria);
+
+    expect(result.method).toBe('hybrid');
+    expect(result.category).toBe('not_eligible');
+    expect(result.blockingFactors.map((f) => f.factor)).toEqual(['ECOG Score']);
+    expect(verdictOf(result, 'ECOG performance status 0-1')).toBe('not_met');
+    expect(result.disagreements).toEqual([
+      expect.objectContaining({
+        kind: 'criterion',
+        subject: 'ECOG performance status 0-1',
+        ruleVerdict: 'not_met',
+        modelVerdict: 'met',
+        resolution: 'rule',
+      }),
+      expect.objectContaining({
+        kind: 'overall',
+        ruleVerdict: 'not eligible',
+        modelVerdict: 'possible match',
+        resolution: 'rule',
+      }),
+    ]);
+  });
+
+  it('turns an exclusion only the model found into one to confirm', async () => {
+    const patient = profile({ biomarkers: ['EGFR exon 19 deletion'] });
+    const criteria = eligibility('Inclusion Criteria:\n- EGFR exon 19 deletion or L858R mutation');
+    const rulesOnly = await match(patient, criteria);
+    stubModel(patient, criteria, {
+      ...MODEL_OUTPUT,
+      score: 10,
+      category: 'not_eligible',
+      blockingFactors: [{ factor: 'Brain Metastases', reason: 'Untreated brain metastases' }],
+    });
+
+    const result = await match(patient, criteria);
+
+    expect(result.method).toBe('hybrid');
+    expect(result.blockingFactors).toEqual([]);
+    expect(result.score).toBeLessThan(rulesOnly.score);
+    expect(result.uncertainFactors).toContain('Confirm: Untreated brain metastases');
+    expect(result.disagreements).toEqual([
+      expect.objectContaining({ kind: 'overall', subject: 'Brain Metastases', resolution: 'needs_review' }),
+    ]);
+  });
+
+  it('averages the scores with the stub model when neither side excludes', async () => {
+    const patient = profile({ biomarkers: ['EGFR exon 19 deletion'] });
+    const criteria = eligibility('Inclusion Criteria:\n- EGFR exon 19 deletion or L858R mutation');
+    const rulesOnly = await match(patient, criteria);
+    // Answered by fixtures/llm/clinical-matcher/default.json (score 68)
+    setLLMProviderName('stub');
+
+    const result = await match(patient, criteria);
+
+    expect(result.method).toBe('hybrid');
+    expect(result.score).toBe(Math.round((rulesOnly.score + 68) / 2));
+    expect(result.uncertainFactors).toContain('Recent lab values are needed to confirm organ function');
+  });
+
+  it('falls back to the rules when the model call fails', async () => {
+    const patient = profile({ ecogScore: 2 });
+    const criteria = eligibility('Inclusion Criteria:\n- ECOG performance status 0-1');
+    setLLMProviderOverride({
+      name: 'stub',
+      model: 'failing-stub',
+      complete: async () => {
+        throw new Error('model unavailable');
+      },
+    });
+
+    const result = await match(patient, criteria);
+
+    expect(result.method).toBe('rules');
+    expect(result.blockingFactors.map((f) => f.factor)).toEqual(['ECOG Score']);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  daysSinceTreatment,
+  describeTreatmentReference,
+  expandDrugClasses,
+  resolveTreatment,
+  resolveTreatmentText,
+  treatmentMatches,
+} from '../lib/treatments';
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+describe('resolveTreatment', () => {
+  it('resolves brand names to drugs and their classes', () => {
+    expect(resolveTreatment('Keytruda')).toMatchObject({
+      name: 'Keytruda',
+      drugs: ['pembrolizumab'],
+      drugClasses: ['anti_pd1'],
+    });
+    expect(resolveTreatment('Enhertu')).toMatchObject({
+      drugs: ['trastuzumab deruxtecan'],
+      drugClasses: ['anti_her2', 'antibody_drug_conjugate'],
+    });
+  });
+
+  it('splits regimens into their drugs', () => {
+    expect(resolveTreatment('carboplatin/pemetrexed')).toMatchObject({
+      drugs: ['carboplatin', 'pemetrexed'],
+      drugClasses: ['platinum', 'chemotherapy'],
+    });
+  });
+
+  it('keeps intake categories as classes and dates as given', () => {
+    expect(resolveTreatment({ drug: 'Immunotherapy', startDate: '2026-01-05', line: 1 })).toEqual({
+      drug: 'Immunotherapy',
+      name: 'Immunotherapy',
+      drugs: [],
+      drugClasses: ['immunotherapy'],
+      startDate: '2026-01-05',
+      line: 1,
+    });
+  });
+
+  it('leaves unknown drugs unresolved', () => {
+    expect(resolveTreatment('mystery-mab')).toMatchObject({ drugs: [], drugClasses: [] });
+  });
+});
+
+describe('resolveTreatmentText', () => {
+  it('keeps only the most specific of related classes', () => {
+    expect(resolveTreatmentText('Prior systemic therapy, including a PD-1 inhibitor')).toEqual({
+      drugClasses: ['anti_pd1'],
+      drugs: [],
+    });
+  });
+
+  it('reads several classes from one criterion', () => {
+    expect(resolveTreatmentText('Prior therapy with anti-PD-1 or anti-PD-L1 agents')).toEqual({
+      drugClasses: ['anti_pd1', 'anti_pdl1'],
+      drugs: [],
+    });
+  });
+});
+
+describe('expandDrugClasses', () => {
+  it('adds every ancestor class', () => {
+    expect(expandDrugClasses(['anti_pd1'])).toEqual(
+      expect.arrayContaining(['anti_pd1', 'immunotherapy', 'systemic_therapy'])
+    );
+  });
+});
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+describe('treatmentMatches', () => {
+  const antiPd1 = resolveTreatmentText('anti-PD-1 antibody');
+
+  it('matches a drug through its class', () => {
+    expect(treatmentMatches(resolveTreatment('Keytruda'), antiPd1)).toBe(true);
+    expect(treatmentMatches(resolveTreatment('Keytruda'), { drugClasses: ['immunotherapy'], drugs: [] })).toBe(true);
+  });
+
+  it('rules out unrelated drugs', () => {
+    expect(treatmentMatches(resolveTreatment('carboplatin'), antiPd1)).toBe(false);
+  });
+
+  it('cannot tell from a treatment broader than the reference', () => {
+    expect(treatmentMatches(resolveTreatment('Immunotherapy'), antiPd1)).toBeNull();
+    expect(treatmentMatches(resolveTreatment('mystery-mab'), antiPd1)).toBeNull();
+  });
+});
+
+describe('daysSinceTreatment', () => {
+  const now = new Date('2026-03-31T12:00:00');
+
+  it('counts whole days since the end date', () => {
+    expect(daysSinceTreatment(resolveTreatment({ drug: 'carboplatin', startDate: '2026-01-01', endDate: '2026-03-01' }), now)).toBe(30);
+  });
+
+  it('treats a started treatment without an end as ongoing', () => {
+    expect(daysSinceTreatment(resolveTreatment({ drug: 'carboplatin', startDate: '2026-03-01' }), now)).toBe(0);
+  });
+
+  it('cannot tell without dates', () => {
+    expect(daysSinceTreatment(resolveTreatment('carboplatin'), now)).toBeNull();
+  });
+});
+
+describe('describeTreatmentReference', () => {
+  it('names drugs and classes, defaulting to systemic therapy', () => {
+    expect(describeTreatmentReference({ drugs: ['osimertinib'], drugClasses: ['chemotherapy'] })).toBe(
+      'osimertinib or chemotherapy'
+    );
+    expect(describeTreatmentReference({ drugs: [], drugClasses: [] })).toBe('systemic therapy');
+  });
+});
@@ -1,9 +1,10 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   base: '/ClinicalMatchMaker_v1/',
   resolve: {
@@ -17,9 +18,22 @@ export default defineConfig({
   server: {
     port: 5173,
     open: true,
+    // The API server (npm run dev:server) holds the API keys
+    proxy: {
+      '/api': 'http://localhost:3001',
+    },
+  },
+  // The API server build is a single self-contained file; elsewhere (tests)
+  // dependencies stay external so vitest is not bundled into itself
+  ssr: {
+    noExternal: isSsrBuild ? true : undefined,
   },
   build: {
     outDir: 'dist',
     sourcemap: true,
   },
-})
+  // Tests pick their data mode themselves, never the network
+  test: {
+    include: ['tests/**/*.test.ts'],
+  },
+}))